@@ -0,0 +1,12 @@
+import { proxyToGameServer } from '../../../../utils/apiProxy';
+import { auditProofSchema } from '../../../../../shared/validation';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  
+  return proxyToGameServer(request, {
+    path: '/api/plinko/audit/proof',
+    input: Object.fromEntries(searchParams),
+    schema: auditProofSchema
+  });
+}
@@ -0,0 +1,14 @@
+import { proxyToGameServer, replyError, requestIdOf, withRequestId } from '../../../../utils/apiProxy';
+import { betLookupSchema, parse } from '../../../../../shared/validation';
+
+export async function GET(request: Request, { params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = await params;
+  const parsed = parse(betLookupSchema, { gameId });
+  
+  // Checked here as the id goes into the upstream path rather than its query
+  if (!parsed.ok) {
+    return withRequestId(replyError(400, parsed.error), requestIdOf(request));
+  }
+  
+  return proxyToGameServer(request, { path: `/api/plinko/bets/${encodeURIComponent(parsed.value.gameId)}` });
+}
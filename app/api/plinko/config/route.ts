@@ -1,27 +1,16 @@
-import { NextResponse } from 'next/server';
+import { proxyToGameServer } from '../../../utils/apiProxy';
+import { configQuerySchema } from '../../../../shared/validation';
+
+// A table's config only moves with the house bankroll, a few seconds old is fine
+const CONFIG_CACHE_MS = 5000;
 
 export async function GET(request: Request) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const risk = searchParams.get('risk') || 'medium';
-    
-    const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3333';
-    const response = await fetch(`${API_URL}/api/plinko/config?risk=${risk}`);
-    
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to fetch plinko configuration' },
-        { status: response.status }
-      );
-    }
-    
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error fetching plinko configuration:', error);
-    return NextResponse.json(
-      { error: 'Failed to connect to game server' },
-      { status: 500 }
-    );
-  }
-} 
\ No newline at end of file
+  const { searchParams } = new URL(request.url);
+  
+  return proxyToGameServer(request, {
+    path: '/api/plinko/config',
+    input: Object.fromEntries(searchParams),
+    schema: configQuerySchema,
+    cacheMs: CONFIG_CACHE_MS
+  });
+}
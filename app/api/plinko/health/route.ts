@@ -1,24 +1,8 @@
-import { NextResponse } from 'next/server';
+import { proxyToGameServer } from '../../../utils/apiProxy';
 
-export async function GET() {
-  try {
-    const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3333';
-    const response = await fetch(`${API_URL}/api/health`);
-    
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Server health check failed' },
-        { status: response.status }
-      );
-    }
-    
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error checking server health:', error);
-    return NextResponse.json(
-      { error: 'Failed to connect to game server' },
-      { status: 500 }
-    );
-  }
-} 
\ No newline at end of file
+// Health is polled by every open page, the server is asked at most this often
+const HEALTH_CACHE_MS = 2000;
+
+export async function GET(request: Request) {
+  return proxyToGameServer(request, { path: '/api/health', cacheMs: HEALTH_CACHE_MS });
+}
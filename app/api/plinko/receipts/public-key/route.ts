@@ -0,0 +1,5 @@
+import { proxyToGameServer } from '../../../../utils/apiProxy';
+
+export async function GET(request: Request) {
+  return proxyToGameServer(request, { path: '/api/plinko/receipts/public-key' });
+}
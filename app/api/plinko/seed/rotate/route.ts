@@ -0,0 +1,5 @@
+import { proxyToGameServer } from '../../../../utils/apiProxy';
+
+export async function POST(request: Request) {
+  return proxyToGameServer(request, { path: '/api/plinko/seed/rotate', method: 'POST', input: {} });
+}
@@ -1,24 +1,5 @@
-import { NextResponse } from 'next/server';
+import { proxyToGameServer } from '../../../utils/apiProxy';
 
-export async function GET() {
-  try {
-    const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3333';
-    const response = await fetch(`${API_URL}/api/plinko/seed`);
-    
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to fetch server seed hash' },
-        { status: response.status }
-      );
-    }
-    
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error fetching server seed hash:', error);
-    return NextResponse.json(
-      { error: 'Failed to connect to game server' },
-      { status: 500 }
-    );
-  }
-} 
\ No newline at end of file
+export async function GET(request: Request) {
+  return proxyToGameServer(request, { path: '/api/plinko/seed' });
+}
@@ -0,0 +1,12 @@
+import { proxyToGameServer } from '../../../../utils/apiProxy';
+import { seedChainQuerySchema } from '../../../../../shared/validation';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  
+  return proxyToGameServer(request, {
+    path: '/api/plinko/seeds/chain',
+    input: Object.fromEntries(searchParams),
+    schema: seedChainQuerySchema
+  });
+}
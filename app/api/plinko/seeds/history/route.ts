@@ -0,0 +1,12 @@
+import { proxyToGameServer } from '../../../../utils/apiProxy';
+import { seedHistoryQuerySchema } from '../../../../../shared/validation';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  
+  return proxyToGameServer(request, {
+    path: '/api/plinko/seeds/history',
+    input: Object.fromEntries(searchParams),
+    schema: seedHistoryQuerySchema
+  });
+}
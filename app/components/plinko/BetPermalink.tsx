@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import PlinkoBoard from './PlinkoBoard';
+import { describeApiError, PlinkoApi } from '../../utils/apiClient';
+import { BetDetails } from '../../../shared/protocol';
+import { formatBaseUnits } from '../../../shared/units';
+import { getMultipliers } from '../../../shared/fairness';
+import { checkAuditInclusion, checkReceipt } from '../../utils/receipts';
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col">
+      <div className="text-gray-400 text-sm">{label}</div>
+      <div className="font-medium break-all">{children}</div>
+    </div>
+  );
+}
+
+// Outcome of checking the bet's audit proof, see checkAuditInclusion
+const AUDIT_STATUS = {
+  included: { label: 'In the published audit root', className: 'text-green-500' },
+  pending: { label: 'Not in a published audit root yet', className: 'text-gray-400' },
+  invalid: { label: 'Audit proof does not check out', className: 'text-red-500' }
+};
+
+export default function BetPermalink({ gameId }: { gameId: string }) {
+  const [bet, setBet] = useState<BetDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [copied, setCopied] = useState<'link' | 'receipt' | null>(null);
+  const [receiptValid, setReceiptValid] = useState<boolean | null>(null);
+  const [audit, setAudit] = useState<keyof typeof AUDIT_STATUS | null>(null);
+  
+  useEffect(() => {
+    const controller = new AbortController();
+    
+    PlinkoApi.getBet(gameId, { signal: controller.signal })
+      .then(data => {
+        if (data) {
+          setBet(data);
+          setIsReplaying(true);
+          
+          if (data.wallet && data.receipt) {
+            const fields = { ...data, wallet: data.wallet };
+            
+            checkReceipt(fields, data.receipt)
+              .then(valid => !controller.signal.aborted && setReceiptValid(valid));
+            checkAuditInclusion(fields)
+              .then(status => !controller.signal.aborted && setAudit(status));
+          }
+        } else {
+          setError('No bet with this id.');
+        }
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) setError(describeApiError(error, 'Failed to load the bet.'));
+      });
+    
+    return () => controller.abort();
+  }, [gameId]);
+  
+  if (error) {
+    return <div className="bg-gray-800 rounded-lg p-6 text-red-400">{error}</div>;
+  }
+  
+  if (!bet) {
+    return <div className="bg-gray-800 rounded-lg p-6 text-gray-400">Loading bet…</div>;
+  }
+  
+  // Amounts are base units of the currency the server reports
+  const formatAmount = (amount: number) => `${formatBaseUnits(amount, bet.currency.decimals)} ${bet.currency.symbol}`;
+  const isWin = bet.winAmount > bet.betAmount;
+  
+  const verifyQuery = bet.serverSeed && new URLSearchParams({
+    serverSeed: bet.serverSeed,
+    clientSeed: bet.clientSeed,
+    nonce: String(bet.nonce),
+    rows: String(bet.rows),
+    risk: bet.riskMode,
+    rngVersion: bet.rngVersion,
+    bucket: String(bet.gameResult ?? ''),
+    multiplier: String(bet.finalMultiplier),
+    betAmount: String(bet.betAmount),
+    winAmount: String(bet.winAmount)
+  });
+  
+  // The receipt is the whole bet as JSON, it can be pasted into the verifier
+  const copy = async (what: 'link' | 'receipt') => {
+    await navigator.clipboard.writeText(what === 'link' ? window.location.href : JSON.stringify(bet, null, 2));
+    setCopied(what);
+  };
+  
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 w-full text-white">
+      <div className="lg:w-1/3 bg-gray-800 rounded-lg p-4 flex flex-col gap-4">
+        <div className={`text-5xl font-bold ${isWin ? 'text-green-500' : 'text-red-500'}`}>
+          {bet.finalMultiplier}x
+        </div>
+        
+        {bet.demo && (
+          <div className="text-sm text-yellow-400">
+            Demo drop: nothing was wagered or paid out, the amounts show what the bet would have returned.
+          </div>
+        )}
+        
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Bet Amount">{formatAmount(bet.betAmount)}</Field>
+          <Field label="Payout">
+            <span className={isWin ? 'text-green-500' : 'text-red-500'}>{formatAmount(bet.winAmount)}</span>
+          </Field>
+          <Field label="Risk"><span className="capitalize">{bet.riskMode}</span></Field>
+          <Field label="Rows">{bet.rows}</Field>
+          <Field label="Nonce">{bet.nonce}</Field>
+          <Field label="Placed">{new Date(bet.timestamp).toLocaleString()}</Field>
+        </div>
+        
+        <Field label="Server Seed (hashed)"><span className="font-mono text-sm">{bet.hashedServerSeed}</span></Field>
+        <Field label="Server Seed">
+          {bet.serverSeed
+            ? <span className="font-mono text-sm">{bet.serverSeed}</span>
+            : <span className="text-gray-500">Hidden until {bet.demo ? 'the demo seed is rotated' : 'the player rotates it'}</span>}
+        </Field>
+        <Field label="Client Seed"><span className="font-mono text-sm">{bet.clientSeed}</span></Field>
+        {bet.wallet && <Field label="Player"><span className="font-mono text-sm">{bet.wallet}</span></Field>}
+        
+        {receiptValid !== null && (
+          <div className={`text-sm font-semibold ${receiptValid ? 'text-green-500' : 'text-red-500'}`}>
+            {receiptValid ? 'Receipt signed by the server' : 'Receipt signature is not valid'}
+          </div>
+        )}
+        
+        {audit && (
+          <div className={`text-sm font-semibold ${AUDIT_STATUS[audit].className}`}>{AUDIT_STATUS[audit].label}</div>
+        )}
+        
+        <div className="flex gap-2">
+          <button onClick={() => copy('link')} className="flex-1 bg-gray-700 hover:bg-gray-600 py-2 rounded">
+            {copied === 'link' ? 'Link Copied' : 'Copy Link'}
+          </button>
+          {bet.receipt && (
+            <button onClick={() => copy('receipt')} className="flex-1 bg-gray-700 hover:bg-gray-600 py-2 rounded">
+              {copied === 'receipt' ? 'Receipt Copied' : 'Copy Receipt'}
+            </button>
+          )}
+          {verifyQuery && (
+            <Link
+              href={`/plinko/verify?${verifyQuery}`}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 py-2 rounded text-center font-semibold"
+            >
+              Verify
+            </Link>
+          )}
+        </div>
+      </div>
+      
+      <div className="flex-1 h-[600px] relative">
+        <PlinkoBoard
+          rows={bet.rows}
+          path={bet.path}
+          isPlaying={isReplaying}
+          onAnimationComplete={() => setIsReplaying(false)}
+          multipliers={getMultipliers(bet.riskMode, bet.rows)}
+          riskMode={bet.riskMode}
+          showPathInitially={true}
+        />
+        {!isReplaying && (
+          <button
+            onClick={() => setIsReplaying(true)}
+            className="absolute top-2 left-2 z-10 bg-gray-800 text-white text-xs px-2 py-1 rounded-md opacity-70 hover:opacity-100"
+          >
+            Replay
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import Matter from 'matter-js';
 interface PlinkoBoardProps {
   rows: number;
   path: number[];
+  // Bet the path was settled for. Each bet id drops exactly one ball; without
+  // one a ball is dropped whenever the path changes, e.g. to replay a bet
+  betId?: string;
   isPlaying: boolean;
   onAnimationComplete: () => void;
   multipliers: number[];
@@ -16,6 +19,7 @@ interface PlinkoBoardProps {
 
 interface BallObject {
   body: Matter.Body;
+  betId?: string;
   path: number[];
   active: boolean;
   pathPoints: {x: number, y: number, row: number}[];
@@ -36,6 +40,7 @@ interface PathWithMetadata {
 export default function PlinkoBoard({
   rows = 16,
   path = [],
+  betId,
   isPlaying = false,
   onAnimationComplete,
   multipliers,
@@ -52,6 +57,7 @@ export default function PlinkoBoard({
   const pinPositionsRef = useRef<{x: number, y: number, row: number}[]>([]);
   const activeBallsRef = useRef<BallObject[]>([]);
   const pendingPathRef = useRef<PathWithMetadata>({ path: [], isManuallyAdded: false });
+  const droppedBetIdsRef = useRef<Set<string>>(new Set());
   
   // Add constants for optimization
   const MAX_ACTIVE_BALLS = 20; // Maximum number of active balls to prevent performance issues
@@ -186,11 +192,11 @@ export default function PlinkoBoard({
       slop: 0.2  // Add some slop to prevent sticking
     };
     
-    // Calculate spacing for pins - we want 3 on top and 18 on bottom over 16 rows
+    // Calculate spacing for pins - 3 on top and one more per row, so the bottom row
+    // has rows + 2 pins and the rows + 1 gaps between them line up with the buckets
     const topPins = 3;
-    const bottomPins = 18;
-    const pinsIncrement = (bottomPins - topPins) / (rows - 1);
-    const pinRadius = containerWidth / (bottomPins * 10);
+    const bottomPins = rows + 2;
+    const pinRadius = containerWidth / (18 * 10);
     // Store pinRadius in the ref
     pinRadiusRef.current = pinRadius;
     
@@ -199,11 +205,11 @@ export default function PlinkoBoard({
     
     // Position pins in a triangular pattern
     for (let row = 0; row < rows; row++) {
-      // Calculate number of pins in this row - ensure we get exactly 3 at top and 18 at bottom
-      const rowPins = Math.round(topPins + (pinsIncrement * row));
+      // Calculate number of pins in this row
+      const rowPins = topPins + row;
       
-      // Calculate horizontal spacing to ensure a proper triangle
-      const spacing = containerWidth / (bottomPins + 1);
+      // Pin spacing equals the bucket width, so each bounce moves the ball half a bucket
+      const spacing = containerWidth / (bottomPins - 1);
       const verticalSpacing = (containerHeight - 120) / (rows + 1);
       const offsetY = 60 + (row * verticalSpacing);
       
@@ -499,13 +505,9 @@ export default function PlinkoBoard({
             ? containerRef.current.clientHeight - 35
             : 600;
           
-          // Simplified bin calculation
-          const binCount = multipliers.length;
-          const binWidth = containerWidth / binCount;
-          const binIndex = Math.min(
-            Math.floor(lastPoint.x / binWidth),
-            binCount - 1
-          );
+          // The bucket is the number of right bounces in the path
+          const binWidth = containerWidth / multipliers.length;
+          const binIndex = ballData.expectedBinIndex ?? 0;
           const binCenterX = (binIndex * binWidth) + (binWidth / 2);
           
           ctx.lineTo(binCenterX, finalY);
@@ -615,14 +617,9 @@ export default function PlinkoBoard({
             );
             ballData.actualBinIndex = actualBinIndex;
             
-            // Determine expected bin from the path data
-            if (ballData.pathPoints.length > 0) {
-              const lastPoint = ballData.pathPoints[ballData.pathPoints.length - 1];
-              const expectedBinIndex = Math.min(
-                Math.floor(lastPoint.x / binWidth),
-                binCount - 1
-              );
-              ballData.expectedBinIndex = expectedBinIndex;
+            // Expected bin was derived from the path when the ball was created
+            if (ballData.expectedBinIndex !== undefined) {
+              const expectedBinIndex = ballData.expectedBinIndex;
               
               // Log the results
               console.log('Ball result:', {
@@ -666,8 +663,13 @@ export default function PlinkoBoard({
   
   // Handle the animation when isPlaying changes
   useEffect(() => {
-    // Create a new ball whenever path changes and isPlaying is true
+    // Create a new ball whenever a new bet arrives (or the path changes) and isPlaying is true
     if (isPlaying && path.length > 0) {
+      // A bet that already has its ball, e.g. a re-render with the same result
+      if (betId && droppedBetIdsRef.current.has(betId)) {
+        return;
+      }
+      
       // Clean up old balls first to maintain performance
       cleanupCompletedBalls();
       
@@ -677,36 +679,24 @@ export default function PlinkoBoard({
         pendingPathRef.current.path = path;
         
         // Create a new ball
-        console.log("Creating new ball from isPlaying change");
-        createBall(path);
+        console.log("Creating new ball for bet", betId);
+        createBall(path, betId);
       } else {
         console.log("Too many active balls, skipping creation");
       }
     }
-  }, [isPlaying, path]);
+  }, [isPlaying, path, betId]);
   
-  // Function to manually add a ball
+  // Function to manually add a ball. The parent places a bet and its ball drops
+  // with that bet's own path once the server has settled it
   const handleAddBall = () => {
     if (onAddBall && pendingPathRef.current.path.length > 0) {
-      // Clean up old balls first
-      cleanupCompletedBalls();
-      
-      // Only add a new ball if we're under the limit
-      if (activeBallsRef.current.length < MAX_ACTIVE_BALLS) {
-        // Create a new ball
-        console.log("Creating new ball from Add Ball button");
-        createBall(pendingPathRef.current.path);
-        
-        // Then notify parent to record the bet on the server
-        onAddBall(pendingPathRef.current.path);
-      } else {
-        console.log("Too many active balls, skipping creation");
-      }
+      onAddBall(pendingPathRef.current.path);
     }
   };
   
   // Function to create and drop a new ball
-  const createBall = (pathDirections: number[]) => {
+  const createBall = (pathDirections: number[], ballBetId?: string) => {
     if (!engineRef.current || !containerRef.current) return;
     
     const containerWidth = containerRef.current.clientWidth;
@@ -743,9 +733,14 @@ export default function PlinkoBoard({
     // Calculate the path points - optimize by limiting updates
     const pathPoints = calculatePathPoints(pathDirections);
     
+    if (ballBetId) {
+      droppedBetIdsRef.current.add(ballBetId);
+    }
+    
     // Create ball object
     const ballObject: BallObject = {
       body: ball,
+      betId: ballBetId,
       path: pathDirections,
       active: true,
       pathPoints,
@@ -753,6 +748,7 @@ export default function PlinkoBoard({
       collisionBodyIds: new Set(),
       prevCollisionTime: 0,
       animationCompleted: false,
+      expectedBinIndex: pathDirections.reduce((rights, direction) => rights + direction, 0),
       hasLoggedResults: false
     };
     
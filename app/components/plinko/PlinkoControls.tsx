@@ -1,64 +1,191 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Currency, formatBaseUnits, parseBaseUnits } from '../../../shared/units';
+import { PlinkoApi } from '../../utils/apiClient';
+import { BetLimits } from '../../types/plinko';
+import { AutobetStrategy, SeedChainInfo } from '../../utils/plinkoService';
 
 interface PlinkoControlsProps {
+  // Balance in base units of the currency
   balance: number;
+  currency: Currency;
   onPlay: (options: PlayOptions) => void;
   disabled: boolean;
   onNewServerSeed: () => void;
   onNewClientSeed: (seed: string) => void;
   clientSeed: string;
   hashedServerSeed: string;
+  seedChain?: SeedChainInfo;
+  isAutobetRunning: boolean;
+  onStopAutobet: () => void;
+}
+
+// Autobet settings, amounts in base units of the currency
+export interface AutobetOptions {
+  count: number;
+  onWin: AutobetStrategy;
+  onLoss: AutobetStrategy;
+  stopOnProfit?: number;
+  stopOnLoss?: number;
+  stopOnMultiplier?: number;
 }
 
 export interface PlayOptions {
+  // Bet in base units of the currency
   betAmount: number;
   riskMode: 'low' | 'medium' | 'high';
   rows: number;
   isAuto: boolean;
+  autobet?: AutobetOptions;
+}
+
+// Form state of a win or loss strategy
+interface StrategyInput {
+  action: AutobetStrategy['action'];
+  percent: string;
+}
+
+function StrategyField({ label, value, onChange }: {
+  label: string;
+  value: StrategyInput;
+  onChange: (value: StrategyInput) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-sm text-gray-400">{label}</label>
+      <div className="flex gap-2">
+        <select
+          value={value.action}
+          onChange={(e) => onChange({ ...value, action: e.target.value as AutobetStrategy['action'] })}
+          className="flex-1 bg-gray-700 py-2 px-3 rounded text-white focus:outline-none"
+        >
+          <option value="reset">Reiniciar</option>
+          <option value="increase">Aumentar</option>
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value.percent}
+          disabled={value.action === 'reset'}
+          onChange={(e) => onChange({ ...value, percent: e.target.value })}
+          className="w-20 bg-gray-700 py-2 px-3 rounded text-white focus:outline-none disabled:opacity-50"
+        />
+        <div className="self-center text-sm text-gray-400">%</div>
+      </div>
+    </div>
+  );
+}
+
+// Empty inputs mean "no stop condition"
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+}
+
+// Number of autobet games, undefined unless it is a whole number above zero
+function betCount(value: string): number | undefined {
+  return /^\d+$/.test(value.trim()) && Number(value) > 0 ? Number(value) : undefined;
 }
 
 export default function PlinkoControls({
   balance,
+  currency,
   onPlay,
   disabled,
   onNewServerSeed,
   onNewClientSeed,
   clientSeed,
-  hashedServerSeed
+  hashedServerSeed,
+  seedChain,
+  isAutobetRunning,
+  onStopAutobet
 }: PlinkoControlsProps) {
-  const [betAmount, setBetAmount] = useState<number>(0.001);
+  const [betInput, setBetInput] = useState<string>('0.001');
+  const betAmount = parseBaseUnits(betInput, currency.decimals) ?? 0;
   const [riskMode, setRiskMode] = useState<'low' | 'medium' | 'high'>('medium');
   const [rows, setRows] = useState<number>(16);
   const [isAuto, setIsAuto] = useState<boolean>(false);
   const [showSeedOptions, setShowSeedOptions] = useState<boolean>(false);
   const [newClientSeed, setNewClientSeed] = useState<string>(clientSeed);
+  const [limits, setLimits] = useState<BetLimits | null>(null);
+  const [autoCount, setAutoCount] = useState<string>('10');
+  const [isInfiniteAuto, setIsInfiniteAuto] = useState<boolean>(false);
+  const [onWin, setOnWin] = useState<StrategyInput>({ action: 'reset', percent: '0' });
+  const [onLoss, setOnLoss] = useState<StrategyInput>({ action: 'reset', percent: '0' });
+  const [stopOnProfit, setStopOnProfit] = useState<string>('');
+  const [stopOnLoss, setStopOnLoss] = useState<string>('');
+  const [stopOnMultiplier, setStopOnMultiplier] = useState<string>('');
+  
+  // Load the server's bet limits for the selected table
+  useEffect(() => {
+    const controller = new AbortController();
+    
+    PlinkoApi.getConfig(riskMode, rows, { signal: controller.signal })
+      .then(config => setLimits(config.limits))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load bet limits:', error);
+        setLimits(null);
+      });
+    
+    return () => controller.abort();
+  }, [riskMode, rows]);
+  
+  // Bets must stay within the table limits and the balance
+  const minBet = limits?.minBet ?? 1;
+  const maxBet = Math.min(limits?.maxBet ?? balance, balance);
+  const isBetInRange = betAmount >= minBet && betAmount <= maxBet;
   
-  // Handle bet amount changes
+  // An autobet runs until stopped only when chosen explicitly, the server reads a count of 0 as no limit
+  const autobetCount = isInfiniteAuto ? 0 : betCount(autoCount);
+  const isAutoCountValid = !isAuto || autobetCount !== undefined;
+  
+  // Handle bet amount changes, only digits and up to `decimals` fraction digits are accepted
   const handleBetAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseFloat(e.target.value);
-    if (!isNaN(value) && value > 0) {
-      setBetAmount(value);
+    const value = e.target.value;
+    if (value === '' || parseBaseUnits(value, currency.decimals) !== null) {
+      setBetInput(value);
     }
   };
   
-  // Handle half and double buttons
+  // Handle half and double buttons, halving rounds down to whole base units
   const halfBet = () => {
-    setBetAmount(prev => Math.max(prev / 2, 0.0001));
+    setBetInput(formatBaseUnits(Math.max(Math.floor(betAmount / 2), minBet), currency.decimals));
   };
   
   const doubleBet = () => {
-    setBetAmount(prev => Math.min(prev * 2, balance));
+    setBetInput(formatBaseUnits(Math.max(Math.min(betAmount * 2, maxBet), minBet), currency.decimals));
   };
   
-  // Handle play button click
+  // Handle play button click, auto mode plays a batch or starts a server-side autobet run
   const handlePlay = () => {
+    if (isAuto && isAutobetRunning) {
+      onStopAutobet();
+      return;
+    }
+    
+    if (!isAutoCountValid) {
+      return;
+    }
+    
+    const toStrategy = (input: StrategyInput): AutobetStrategy => ({
+      action: input.action,
+      percent: input.action === 'increase' ? optionalNumber(input.percent) ?? 0 : 0
+    });
+    
     onPlay({
       betAmount,
       riskMode,
       rows,
-      isAuto
+      isAuto,
+      autobet: isAuto ? {
+        count: autobetCount ?? 0,
+        onWin: toStrategy(onWin),
+        onLoss: toStrategy(onLoss),
+        stopOnProfit: parseBaseUnits(stopOnProfit, currency.decimals) || undefined,
+        stopOnLoss: parseBaseUnits(stopOnLoss, currency.decimals) || undefined,
+        stopOnMultiplier: optionalNumber(stopOnMultiplier)
+      } : undefined
     });
   };
   
@@ -90,15 +217,13 @@ export default function PlinkoControls({
       <div className="flex flex-col gap-2">
         <label className="text-sm text-gray-400">Valor da Aposta</label>
         <div className="flex items-center">
-          <div className="text-xs bg-gray-700 px-2 py-1 rounded-l">US$</div>
+          <div className="text-xs bg-gray-700 px-2 py-1 rounded-l">{currency.symbol}</div>
           <input
-            type="number"
-            value={betAmount}
+            type="text"
+            inputMode="decimal"
+            value={betInput}
             onChange={handleBetAmountChange}
             className="flex-1 bg-gray-700 py-2 px-3 text-white focus:outline-none"
-            step={0.0001}
-            min={0.0001}
-            max={balance}
           />
           <div className="flex">
             <button 
@@ -115,6 +240,11 @@ export default function PlinkoControls({
             </button>
           </div>
         </div>
+        {limits && (
+          <div className={`text-xs ${isBetInRange ? 'text-gray-400' : 'text-red-400'}`}>
+            Mín {formatBaseUnits(minBet, currency.decimals)} · Máx {formatBaseUnits(maxBet, currency.decimals)} {currency.symbol}
+          </div>
+        )}
       </div>
       
       {/* Risk Level */}
@@ -145,13 +275,79 @@ export default function PlinkoControls({
         </select>
       </div>
       
+      {/* Autobet settings */}
+      {isAuto && (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <label className="text-sm text-gray-400">Número de Apostas</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                value={isInfiniteAuto ? '∞' : autoCount}
+                disabled={isInfiniteAuto}
+                onChange={(e) => setAutoCount(e.target.value)}
+                className="flex-1 bg-gray-700 py-2 px-3 rounded text-white focus:outline-none disabled:opacity-50"
+              />
+              <button
+                onClick={() => setIsInfiniteAuto(!isInfiniteAuto)}
+                className={`px-3 py-2 rounded text-sm ${isInfiniteAuto ? 'bg-blue-600' : 'bg-gray-700'}`}
+              >
+                ∞
+              </button>
+            </div>
+            {!isAutoCountValid && (
+              <div className="text-xs text-red-400">
+                Informe um número inteiro maior que zero ou escolha ∞
+              </div>
+            )}
+          </div>
+          
+          <StrategyField label="Ao Ganhar" value={onWin} onChange={setOnWin} />
+          <StrategyField label="Ao Perder" value={onLoss} onChange={setOnLoss} />
+          
+          <div className="flex flex-col gap-2">
+            <label className="text-sm text-gray-400">Parar no Lucro ({currency.symbol})</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={stopOnProfit}
+              onChange={(e) => setStopOnProfit(e.target.value)}
+              className="bg-gray-700 py-2 px-3 rounded text-white focus:outline-none"
+            />
+          </div>
+          
+          <div className="flex flex-col gap-2">
+            <label className="text-sm text-gray-400">Parar na Perda ({currency.symbol})</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={stopOnLoss}
+              onChange={(e) => setStopOnLoss(e.target.value)}
+              className="bg-gray-700 py-2 px-3 rounded text-white focus:outline-none"
+            />
+          </div>
+          
+          <div className="flex flex-col gap-2">
+            <label className="text-sm text-gray-400">Parar no Multiplicador (×)</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={stopOnMultiplier}
+              onChange={(e) => setStopOnMultiplier(e.target.value)}
+              className="bg-gray-700 py-2 px-3 rounded text-white focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+      
       {/* Play Button */}
       <button
         onClick={handlePlay}
-        disabled={disabled || betAmount <= 0 || betAmount > balance}
+        disabled={disabled || ((!isBetInRange || !isAutoCountValid) && !(isAuto && isAutobetRunning))}
         className="bg-green-500 hover:bg-green-600 disabled:bg-green-800 disabled:opacity-50 py-3 rounded-lg font-medium text-center"
       >
-        Aposta
+        {!isAuto ? 'Aposta' : isAutobetRunning ? 'Parar Auto' : 'Iniciar Auto'}
       </button>
       
       {/* Fairness Section */}
@@ -172,6 +368,17 @@ export default function PlinkoControls({
               </div>
             </div>
             
+            {seedChain && (
+              <div>
+                <div className="text-gray-400 mb-1">
+                  Seed Chain Anchor (seed {seedChain.position} of {seedChain.length})
+                </div>
+                <div className="bg-gray-800 p-2 rounded break-all">
+                  {seedChain.anchor}
+                </div>
+              </div>
+            )}
+            
             <div>
               <div className="text-gray-400 mb-1">Client Seed</div>
               <input
@@ -1,74 +1,181 @@
 'use client';
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
+import { useAuth } from '../../context/AuthContext';
+import Link from 'next/link';
 import PlinkoBoard from './PlinkoBoard';
-import PlinkoControls, { PlayOptions } from './PlinkoControls';
+import PlinkoControls, { AutobetOptions, PlayOptions } from './PlinkoControls';
 import PlinkoResult from './PlinkoResult';
+import SeedHistory from './SeedHistory';
 import { 
   PlinkoService, 
   GameState, 
   GameResult, 
+  BatchResult,
+  AutobetStatus,
+  SeedChainInfo,
+  ConnectionStatus,
+  MissedResult,
+  PlayError,
+  MAX_BATCH_SIZE,
   MULTIPLIERS 
 } from '../../utils/plinkoService';
+import { DEFAULT_CURRENCY, formatBaseUnits } from '../../../shared/units';
+
+const CONNECTION_LABELS: Record<ConnectionStatus['state'], { label: string; color: string }> = {
+  connecting: { label: 'Connecting…', color: 'bg-yellow-500' },
+  connected: { label: 'Connected', color: 'bg-green-500' },
+  reconnecting: { label: 'Reconnecting…', color: 'bg-yellow-500' },
+  disconnected: { label: 'Disconnected', color: 'bg-red-500' },
+  outdated: { label: 'This page is out of date, refresh it to keep playing', color: 'bg-red-500' }
+};
+
+function ConnectionIndicator({ status }: { status: ConnectionStatus }) {
+  const { label, color } = CONNECTION_LABELS[status.state];
+  
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-300">
+      <span className={`inline-block w-2 h-2 rounded-full ${color}`} />
+      {label}
+      {status.attempt > 0 && <span className="text-gray-500">attempt {status.attempt}</span>}
+    </div>
+  );
+}
+
+// Delay between the balls of a settled batch
+const BATCH_BALL_INTERVAL = 250;
+
+// A fixed number of same-size bets with no stop condition is settled in one
+// game:play-batch. Anything else changes bet by bet and runs as a server autobet.
+function isPlainBatch(autobet: AutobetOptions): boolean {
+  return autobet.count > 0 &&
+    autobet.count <= MAX_BATCH_SIZE &&
+    autobet.onWin.action === 'reset' &&
+    autobet.onLoss.action === 'reset' &&
+    autobet.stopOnProfit === undefined &&
+    autobet.stopOnLoss === undefined &&
+    autobet.stopOnMultiplier === undefined;
+}
 
 interface PlinkoGameClientProps {
+  // Balance shown before the server sends the account, in base units
   initialBalance: number;
 }
 
-export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameClientProps) {
+export default function PlinkoGameClient({ initialBalance = 0 }: PlinkoGameClientProps) {
+  const { primaryWallet } = useDynamicContext();
+  const walletAddress = primaryWallet?.address;
+  const { setSessionWallet } = useAuth();
   const [plinkoService] = useState(() => new PlinkoService());
   const [gameState, setGameState] = useState<GameState>({
     clientSeed: '',
     hashedServerSeed: '',
     balance: initialBalance,
+    currency: DEFAULT_CURRENCY,
     isPlaying: false,
     gameHistory: []
   });
   const [latestResult, setLatestResult] = useState<GameResult | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [currentPath, setCurrentPath] = useState<number[]>([]);
-  const [currentMultipliers, setCurrentMultipliers] = useState<number[]>(MULTIPLIERS.medium);
-  const [isConnected, setIsConnected] = useState(false);
+  // Bet the current path belongs to, the board drops one ball per bet
+  const [currentBetId, setCurrentBetId] = useState<string | undefined>(undefined);
+  const [currentRows, setCurrentRows] = useState<number>(16);
+  const [currentRiskMode, setCurrentRiskMode] = useState<PlayOptions['riskMode']>('medium');
+  const [currentMultipliers, setCurrentMultipliers] = useState<number[]>(MULTIPLIERS[16].medium);
+  const [connection, setConnection] = useState<ConnectionStatus>(plinkoService.connectionStatus);
   const [error, setError] = useState<string | null>(null);
   const [lastOptions, setLastOptions] = useState<PlayOptions | null>(null);
-  const [pendingBalls, setPendingBalls] = useState<number>(0);
+  const [autobet, setAutobet] = useState<AutobetStatus | null>(null);
+  const batchTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const [seedHistoryKey, setSeedHistoryKey] = useState(0);
   const [ballId, setBallId] = useState<number>(0);
+  const [missedNotice, setMissedNotice] = useState<string | null>(null);
+  const isConnected = connection.state === 'connected';
   
-  // Connect to the server on mount
+  // Connect to the server once a wallet is connected, the account is keyed by it
   useEffect(() => {
+    if (!walletAddress || !primaryWallet) {
+      return;
+    }
+    
+    // The account arrives with game:init, which is sent again after every reconnect
     const connectToServer = async () => {
       try {
-        const initialState = await plinkoService.connect();
-        setGameState(initialState);
-        setIsConnected(true);
-        setError(null);
+        await plinkoService.connect(
+          walletAddress,
+          (message) => primaryWallet.signMessage(message)
+        );
       } catch (error) {
         console.error('Failed to connect to server:', error);
-        setError('Failed to connect to the Plinko server. Please try again later.');
-        setIsConnected(false);
+        setError('Failed to sign in to the Plinko server. Please try again.');
+        setSessionWallet(null);
       }
     };
     
-    connectToServer();
-    
     // Set up event listeners
+    plinkoService.on('connection:state', setConnection);
+    plinkoService.on('game:init', handleGameInit);
+    plinkoService.on('game:missed-results', handleMissedResults);
     plinkoService.on('game:result', handleGameResult);
+    plinkoService.on('game:batch-result', handleBatchResult);
+    plinkoService.on('autobet:started', handleAutobetStarted);
+    plinkoService.on('autobet:progress', handleAutobetProgress);
+    plinkoService.on('autobet:stopped', handleAutobetStopped);
     plinkoService.on('game:error', handleGameError);
     plinkoService.on('game:new-seed', handleNewSeed);
     plinkoService.on('game:reveal-seed', handleRevealSeed);
     plinkoService.on('disconnect', handleDisconnect);
     
+    connectToServer();
+    
     return () => {
       // Clean up
+      plinkoService.off('connection:state', setConnection);
+      plinkoService.off('game:init', handleGameInit);
+      plinkoService.off('game:missed-results', handleMissedResults);
       plinkoService.off('game:result', handleGameResult);
+      plinkoService.off('game:batch-result', handleBatchResult);
+      plinkoService.off('autobet:started', handleAutobetStarted);
+      plinkoService.off('autobet:progress', handleAutobetProgress);
+      plinkoService.off('autobet:stopped', handleAutobetStopped);
       plinkoService.off('game:error', handleGameError);
       plinkoService.off('game:new-seed', handleNewSeed);
       plinkoService.off('game:reveal-seed', handleRevealSeed);
       plinkoService.off('disconnect', handleDisconnect);
       plinkoService.disconnect();
+      setSessionWallet(null);
+      setAutobet(null);
+      setMissedNotice(null);
+      batchTimersRef.current.forEach(clearTimeout);
+      batchTimersRef.current = [];
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [walletAddress]);
+  
+  // Sent on the first sign-in and again on every resume, with the account as the server has it
+  const handleGameInit = (state: GameState) => {
+    setGameState(prev => ({ ...state, isPlaying: prev.isPlaying }));
+    setSessionWallet(walletAddress || null);
+    setError(null);
+  };
+  
+  // Bets settled while the connection was down, e.g. by a running autobet. The
+  // history and balance already came with game:init, the newest ball is replayed
+  const handleMissedResults = (results: MissedResult[]) => {
+    const last = results[results.length - 1];
+    const profit = results.reduce((total, result) => total + result.winAmount - result.betAmount, 0);
+    
+    setCurrentRows(last.rows);
+    setCurrentRiskMode(last.riskMode);
+    setCurrentMultipliers(MULTIPLIERS[last.rows][last.riskMode]);
+    setCurrentPath(last.path);
+    setCurrentBetId(last.gameId);
+    setBallId(prevId => prevId + 1);
+    setGameState(prev => ({ ...prev, isPlaying: true }));
+    setMissedNotice(`${results.length} bet${results.length === 1 ? '' : 's'} settled while you were offline, ${profit >= 0 ? '+' : ''}${formatAmount(profit)}`);
+  };
   
   // Handle game result
   const handleGameResult = (result: GameResult) => {
@@ -81,40 +188,72 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
       return;
     }
     
-    // First update path and result data and start a new ball
+    // First update path and result data and start a new ball, autobet bets have no bet id
     setCurrentPath(result.path);
+    setCurrentBetId(result.betId || result.gameId);
     setLatestResult(result);
     
     // Increment ball ID for next request
     setBallId(prevId => prevId + 1);
     
-    // Decrement pendingBalls if we have any
-    setPendingBalls(prevBalls => Math.max(0, prevBalls - 1));
-    
     // Update game state and history
     setGameState(prev => ({
       ...prev,
       balance: result.balance,
       isPlaying: true,
       // Limit game history to last 100 entries for better performance
-      gameHistory: [...prev.gameHistory.slice(-99), { ...result, timestamp: Date.now() }]
+      gameHistory: [...prev.gameHistory.slice(-99), { ...result, timestamp: result.timestamp || Date.now() }]
     }));
   };
   
+  // The whole batch is already settled, the balls are only dropped one after another for show
+  const handleBatchResult = (batch: BatchResult) => {
+    batch.results.forEach((result, index) => {
+      batchTimersRef.current.push(setTimeout(() => handleGameResult(result), index * BATCH_BALL_INTERVAL));
+    });
+  };
+  
+  // Autobet runs on the server, each settled bet is animated like a manual one
+  const handleAutobetStarted = (status: AutobetStatus) => {
+    setAutobet(status);
+    setCurrentRows(status.settings.rows);
+    setCurrentRiskMode(status.settings.riskMode);
+    setCurrentMultipliers(MULTIPLIERS[status.settings.rows][status.settings.riskMode]);
+  };
+  
+  const handleAutobetProgress = (status: AutobetStatus) => {
+    setAutobet(status);
+    
+    if (status.result) {
+      handleGameResult(status.result);
+    }
+  };
+  
+  const handleAutobetStopped = (status: AutobetStatus) => {
+    setAutobet(null);
+    
+    if (status.reason === 'error' && status.error) {
+      setError(`Autobet stopped: ${status.error.message}`);
+    }
+  };
+  
   // Handle game error
-  const handleGameError = (error: { message: string }) => {
+  const handleGameError = (error: { code?: string; message: string }) => {
     setError(error.message);
     setGameState(prev => ({ ...prev, isPlaying: false }));
-    setPendingBalls(0); // Clear any pending balls on error
   };
   
   // Handle new seed
-  const handleNewSeed = (data: { hashedServerSeed?: string, clientSeed?: string }) => {
+  const handleNewSeed = (data: { hashedServerSeed?: string, clientSeed?: string, seedChain?: SeedChainInfo }) => {
     setGameState(prev => ({
       ...prev,
       hashedServerSeed: data.hashedServerSeed || prev.hashedServerSeed,
+      seedChain: data.seedChain || prev.seedChain,
       clientSeed: data.clientSeed || prev.clientSeed
     }));
+    
+    // The previous seed pair was just archived
+    setSeedHistoryKey(key => key + 1);
   };
   
   // Handle reveal seed
@@ -125,25 +264,20 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
     }));
   };
   
-  // Handle disconnect
+  // A dropped connection retries on its own, the indicator shows its progress
   const handleDisconnect = () => {
-    setIsConnected(false);
-    setError('Disconnected from the Plinko server.');
+    setMissedNotice(null);
   };
   
   // Rate limit the play function to prevent overwhelming the server
-  const throttledPlay = useCallback(() => {
-    if (!lastOptions || !isConnected) return;
+  const throttledPlay = useCallback((options: PlayOptions | null = lastOptions) => {
+    if (!options || !isConnected) return;
     
-    try {
-      plinkoService.play({
-        ...lastOptions,
-        rows: 16
-      });
-    } catch (error) {
+    // The result reaches handleGameResult through the game:result listener
+    plinkoService.play(options).catch(error => {
       console.error('Error playing game:', error);
-      setError('Failed to play game.');
-    }
+      setError(error instanceof PlayError ? error.message : 'Failed to play game.');
+    });
   }, [plinkoService, lastOptions, isConnected]);
   
   // Handle play button click
@@ -160,32 +294,43 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
     // Store the options for repeated use
     setLastOptions(options);
     
-    // Update multipliers based on risk mode
-    setCurrentMultipliers(MULTIPLIERS[options.riskMode]);
+    // Update the board to the selected rows and risk mode
+    setCurrentRows(options.rows);
+    setCurrentRiskMode(options.riskMode);
+    setCurrentMultipliers(MULTIPLIERS[options.rows][options.riskMode]);
     
-    // Send play request to server
-    throttledPlay();
+    // A plain auto run is one batch, any other starts a server-side autobet
+    if (options.isAuto && options.autobet && isPlainBatch(options.autobet)) {
+      plinkoService.playBatch(options, options.autobet.count).catch(error => {
+        console.error('Error playing batch:', error);
+        setError(error instanceof PlayError ? error.message : 'Failed to play game.');
+      });
+      return;
+    }
     
-    // If this is auto mode, set pending balls
-    if (options.isAuto) {
-      setPendingBalls(prev => prev + 5); // Queue 5 balls for auto mode
+    if (options.isAuto && options.autobet) {
+      try {
+        plinkoService.startAutobet({
+          ...options.autobet,
+          betAmount: options.betAmount,
+          riskMode: options.riskMode,
+          rows: options.rows
+        });
+      } catch (error) {
+        console.error('Error starting autobet:', error);
+        setError('Failed to start autobet.');
+      }
+      return;
     }
+    
+    // Send play request to server with the options just selected
+    throttledPlay(options);
   };
   
   // Handle animation complete
   const handleAnimationComplete = () => {
-    // Don't reset isPlaying here to allow multiple balls
-    // We'll just update game history and track results
-    
-    // If we have pending balls, play the next one
-    if (pendingBalls > 0 && lastOptions) {
-      setTimeout(() => {
-        plinkoService.play({
-          ...lastOptions,
-          rows: 16
-        });
-      }, 200); // Small delay between balls
-    }
+    // Don't reset isPlaying here to allow multiple balls, every bet is
+    // already settled by the time its ball drops
   };
   
   // Function to handle adding a new ball from the board
@@ -194,6 +339,13 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
     throttledPlay();
   };
   
+  // Format an amount in base units for display
+  const formatAmount = (units: number) => `${formatBaseUnits(units, gameState.currency.decimals)} ${gameState.currency.symbol}`;
+  
+  const handleStopAutobet = () => {
+    plinkoService.stopAutobet();
+  };
+  
   // Request a new server seed
   const handleNewServerSeed = () => {
     plinkoService.requestNewServerSeed();
@@ -219,41 +371,76 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
         </div>
       )}
       
+      {walletAddress && (
+        <ConnectionIndicator status={connection} />
+      )}
+      
+      {!walletAddress && (
+        <div className="bg-gray-800 text-gray-300 p-3 rounded-md text-center">
+          Connect your wallet and sign the login message to play. Your balance and seeds are saved to it.
+        </div>
+      )}
+      
       <div className="flex flex-col lg:flex-row gap-6 w-full h-full">
         {/* Game controls */}
         <div className="lg:w-1/4">
           <PlinkoControls
             balance={gameState.balance}
+            currency={gameState.currency}
             onPlay={handlePlay}
             disabled={!isConnected}
             onNewServerSeed={handleNewServerSeed}
             onNewClientSeed={handleNewClientSeed}
             clientSeed={gameState.clientSeed}
             hashedServerSeed={gameState.hashedServerSeed}
+            seedChain={gameState.seedChain}
+            isAutobetRunning={autobet !== null}
+            onStopAutobet={handleStopAutobet}
           />
         </div>
         
         {/* Game board */}
         <div className="flex-1 h-[600px]">
+          {/* Running autobet */}
+          {autobet && (
+            <div className="mb-2 flex items-center justify-between bg-gray-800 rounded-lg p-2 text-white text-sm">
+              <div>
+                Auto: {autobet.betsPlayed}{autobet.settings.count > 0 ? ` / ${autobet.settings.count}` : ''} bets, next {formatAmount(autobet.currentBet)}
+              </div>
+              <div className={`font-bold ${autobet.profit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                {autobet.profit >= 0 ? '+' : ''}{formatAmount(autobet.profit)}
+              </div>
+            </div>
+          )}
+          
+          {/* Bets that settled while the connection was down */}
+          {missedNotice && (
+            <div className="mb-2 flex items-center justify-between bg-gray-800 rounded-lg p-2 text-white text-sm">
+              <div>{missedNotice}</div>
+              <button className="ml-2 font-bold" onClick={() => setMissedNotice(null)}>×</button>
+            </div>
+          )}
+          
           {/* Non-intrusive last result display */}
           {latestResult && (
             <div className="mb-2 flex items-center justify-between bg-gray-800 rounded-lg p-2 text-white">
               <div className="text-sm">
-                Last Bet: <span className="font-bold">${latestResult.betAmount.toFixed(4)}</span>
+                Last Bet: <span className="font-bold">{formatAmount(latestResult.betAmount)}</span>
               </div>
               <div className={`text-sm ${latestResult.winAmount > latestResult.betAmount ? 'text-green-500' : 'text-red-500'} font-bold`}>
-                {latestResult.finalMultiplier}x = ${latestResult.winAmount.toFixed(4)}
+                {latestResult.finalMultiplier}x = {formatAmount(latestResult.winAmount)}
               </div>
             </div>
           )}
           
           <PlinkoBoard
-            rows={16}
+            rows={currentRows}
             path={currentPath}
+            betId={currentBetId}
             isPlaying={gameState.isPlaying}
             onAnimationComplete={handleAnimationComplete}
             multipliers={currentMultipliers}
-            riskMode="medium"
+            riskMode={currentRiskMode}
             showPathInitially={true}
             onAddBall={handleAddBall}
           />
@@ -274,6 +461,7 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
                   <th className="py-2 px-4 text-left">Multiplier</th>
                   <th className="py-2 px-4 text-left">Win Amount</th>
                   <th className="py-2 px-4 text-left">Profit</th>
+                  <th className="py-2 px-4 text-left">Bet</th>
                 </tr>
               </thead>
               <tbody>
@@ -286,12 +474,17 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
                   return (
                     <tr key={index} className="border-b border-gray-700 hover:bg-gray-700">
                       <td className="py-2 px-4">{formattedTime}</td>
-                      <td className="py-2 px-4">${game.betAmount.toFixed(4)}</td>
+                      <td className="py-2 px-4">{formatAmount(game.betAmount)}</td>
                       <td className="py-2 px-4 capitalize">{game.riskMode}</td>
                       <td className="py-2 px-4">{game.finalMultiplier}x</td>
-                      <td className="py-2 px-4">${game.winAmount.toFixed(4)}</td>
+                      <td className="py-2 px-4">{formatAmount(game.winAmount)}</td>
                       <td className={`py-2 px-4 ${isWin ? 'text-green-500' : 'text-red-500'}`}>
-                        {isWin ? '+' : ''}{profit.toFixed(4)}
+                        {isWin ? '+' : ''}{formatBaseUnits(profit, gameState.currency.decimals)}
+                      </td>
+                      <td className="py-2 px-4">
+                        <Link href={`/plinko/bet/${game.gameId}`} className="text-blue-400 hover:text-blue-300">
+                          Share
+                        </Link>
                       </td>
                     </tr>
                   );
@@ -301,6 +494,11 @@ export default function PlinkoGameClient({ initialBalance = 1000 }: PlinkoGameCl
           </div>
         </div>
       )}
+      
+      {/* Retired seed pairs, kept by the server so past bets stay verifiable */}
+      {walletAddress && isConnected && (
+        <SeedHistory wallet={walletAddress} refreshKey={seedHistoryKey} />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,19 +1,22 @@
 'use client';
 
 import React from 'react';
+import { Currency, DEFAULT_CURRENCY, formatBaseUnits } from '../../../shared/units';
 
 interface PlinkoResultProps {
   isVisible: boolean;
   multiplier: number;
   betAmount: number;
   winAmount: number;
+  currency?: Currency;
 }
 
 export default function PlinkoResult({
   isVisible,
   multiplier,
   betAmount,
-  winAmount
+  winAmount,
+  currency = DEFAULT_CURRENCY
 }: PlinkoResultProps) {
   if (!isVisible) return null;
   
@@ -21,9 +24,9 @@ export default function PlinkoResult({
   const isWin = winAmount > betAmount;
   const textColor = isWin ? 'text-green-500' : 'text-red-500';
   
-  // Format amounts
-  const formattedBet = betAmount.toFixed(4);
-  const formattedWin = winAmount.toFixed(4);
+  // Format amounts, both are integer base units
+  const formattedBet = `${formatBaseUnits(betAmount, currency.decimals)} ${currency.symbol}`;
+  const formattedWin = `${formatBaseUnits(winAmount, currency.decimals)} ${currency.symbol}`;
   
   return (
     <div className="fixed inset-0 flex items-center justify-center z-50 bg-black bg-opacity-50 p-4">
@@ -38,12 +41,12 @@ export default function PlinkoResult({
           <div className="grid grid-cols-2 gap-4 w-full">
             <div className="flex flex-col items-center">
               <div className="text-gray-400 text-sm">Bet Amount</div>
-              <div className="font-medium">${formattedBet}</div>
+              <div className="font-medium">{formattedBet}</div>
             </div>
             
             <div className="flex flex-col items-center">
               <div className="text-gray-400 text-sm">Win Amount</div>
-              <div className={`font-medium ${textColor}`}>${formattedWin}</div>
+              <div className={`font-medium ${textColor}`}>{formattedWin}</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,402 @@
+'use client';
+
+import React, { useState } from 'react';
+import PlinkoBoard from './PlinkoBoard';
+import {
+  getMultipliers,
+  RiskMode,
+  RISK_MODES,
+  RngVersion,
+  RNG_VERSIONS,
+  CURRENT_RNG_VERSION,
+  Receipt,
+  ReceiptFields,
+  RowDraw,
+  SUPPORTED_ROWS
+} from '../../../shared/fairness';
+import { calculateGameResult, calculateRowDraws } from '../../../shared/fairness/webcrypto';
+import { calculatePayout } from '../../../shared/units';
+import { checkReceipt } from '../../utils/receipts';
+
+// Everything needed to recompute a game, plus what the server reported for it
+export interface VerifyInput {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+  rows: number;
+  riskMode: RiskMode;
+  rngVersion: RngVersion;
+  reportedResult?: number;
+  reportedMultiplier?: number;
+  // Base units, the payout is only recomputed when the bet amount is known
+  betAmount?: number;
+  reportedWinAmount?: number;
+}
+
+interface Verification {
+  input: VerifyInput;
+  hashedServerSeed: string;
+  draws: RowDraw[];
+  path: number[];
+  gameResult: number;
+  finalMultiplier: number;
+  // null without a bet amount to pay out
+  winAmount: number | null;
+  // null when nothing was reported to compare with
+  matches: boolean | null;
+  // null when the pasted result carried no signed receipt
+  receiptValid: boolean | null;
+}
+
+// A pasted result with the server's signature over it
+interface SignedResult {
+  fields: ReceiptFields;
+  receipt: Receipt;
+}
+
+const DEFAULT_INPUT: VerifyInput = {
+  serverSeed: '',
+  clientSeed: '',
+  nonce: '0',
+  rows: 16,
+  riskMode: 'medium',
+  rngVersion: CURRENT_RNG_VERSION
+};
+
+// Read a pasted game:result, ledger or /api/plinko/verify payload. Results without
+// an rngVersion predate versioning and were produced by v1.
+function parseResultJson(text: string, current: VerifyInput): VerifyInput {
+  const data = JSON.parse(text);
+  const pick = (...values: unknown[]) => values.find(value => value !== undefined && value !== null);
+  
+  const rows = Number(pick(data.rows, current.rows));
+  const riskMode = pick(data.riskMode, data.riskLevel, current.riskMode) as RiskMode;
+  const rngVersion = pick(data.rngVersion, 'v1') as RngVersion;
+  const reportedResult = pick(data.gameResult, data.bucket);
+  const reportedMultiplier = pick(data.finalMultiplier, data.multiplier);
+  const betAmount = pick(data.betAmount, current.betAmount);
+  const reportedWinAmount = pick(data.winAmount);
+  
+  if (!SUPPORTED_ROWS.includes(rows) || !RISK_MODES.includes(riskMode) || !RNG_VERSIONS.includes(rngVersion)) {
+    throw new Error('Unsupported rows, risk or RNG version');
+  }
+  
+  return {
+    serverSeed: String(pick(data.serverSeed, data.revealedSeed, current.serverSeed)),
+    clientSeed: String(pick(data.clientSeed, current.clientSeed)),
+    nonce: String(pick(data.nonce, current.nonce)),
+    rows,
+    riskMode,
+    rngVersion,
+    reportedResult: reportedResult === undefined ? undefined : Number(reportedResult),
+    reportedMultiplier: reportedMultiplier === undefined ? undefined : Number(reportedMultiplier),
+    betAmount: betAmount === undefined ? undefined : Number(betAmount),
+    reportedWinAmount: reportedWinAmount === undefined ? undefined : Number(reportedWinAmount)
+  };
+}
+
+// Which digest a row's bytes were read from
+function drawSource(draw: RowDraw, input: VerifyInput): string {
+  if (input.rngVersion === 'v1') {
+    return `sha256(…:${Number(input.nonce) + draw.row})`;
+  }
+  
+  return `HMAC round ${Math.floor((draw.row * 4) / 32)}`;
+}
+
+const formatBytes = (bytes: number[]) => bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+
+export default function PlinkoVerifier({ initialInput }: { initialInput?: Partial<VerifyInput> }) {
+  const [input, setInput] = useState<VerifyInput>({ ...DEFAULT_INPUT, ...initialInput });
+  const [resultJson, setResultJson] = useState('');
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  
+  const update = (changes: Partial<VerifyInput>) => setInput({ ...input, ...changes });
+  
+  const verify = async (target: VerifyInput, signed?: SignedResult) => {
+    const nonce = Number(target.nonce);
+    
+    if (!target.serverSeed || !target.clientSeed || !Number.isInteger(nonce) || nonce < 0) {
+      setError('Enter the revealed server seed, the client seed and a non-negative integer nonce.');
+      return;
+    }
+    
+    const options = { rows: target.rows, riskMode: target.riskMode, rngVersion: target.rngVersion };
+    
+    try {
+      // Computed entirely in the browser with WebCrypto, the server is never asked
+      const [result, draws, receiptValid] = await Promise.all([
+        calculateGameResult(target.serverSeed, target.clientSeed, nonce, options),
+        calculateRowDraws(target.serverSeed, target.clientSeed, nonce, options),
+        signed ? checkReceipt(signed.fields, signed.receipt) : null
+      ]);
+      
+      // Payouts round down to whole base units exactly as the server settles them
+      const winAmount = target.betAmount === undefined ? null : calculatePayout(target.betAmount, result.finalMultiplier);
+      const reported: [number | undefined, number | null][] = [
+        [target.reportedResult, result.gameResult],
+        [target.reportedMultiplier, result.finalMultiplier],
+        [target.reportedWinAmount, winAmount]
+      ];
+      const checks = reported.filter(([value]) => value !== undefined);
+      
+      setVerification({
+        input: target,
+        hashedServerSeed: result.hashedServerSeed,
+        draws,
+        path: result.path,
+        gameResult: result.gameResult,
+        finalMultiplier: result.finalMultiplier,
+        winAmount,
+        matches: checks.length > 0 ? checks.every(([value, expected]) => value === expected) : null,
+        // A receipt only vouches for this game if it commits to the same server seed
+        receiptValid: signed ? receiptValid === true && signed.fields.hashedServerSeed === result.hashedServerSeed : null
+      });
+      setError(null);
+      setIsReplaying(true);
+    } catch (err) {
+      setError(`Verification failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  
+  const handlePasteResult = () => {
+    try {
+      const parsed = parseResultJson(resultJson, input);
+      const data = JSON.parse(resultJson);
+      
+      setInput(parsed);
+      verify(parsed, data.receipt ? { fields: { ...data, riskMode: parsed.riskMode }, receipt: data.receipt } : undefined);
+    } catch (err) {
+      setError(`Could not read the result JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  
+  const reportedNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+  
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 w-full text-white">
+      {/* Inputs */}
+      <div className="lg:w-1/3 bg-gray-800 rounded-lg p-4 flex flex-col gap-3">
+        <label className="text-sm text-gray-400">Server Seed (revealed)</label>
+        <input
+          type="text"
+          value={input.serverSeed}
+          onChange={(e) => update({ serverSeed: e.target.value.trim() })}
+          className="bg-gray-700 py-2 px-3 rounded font-mono text-sm focus:outline-none"
+        />
+        
+        <label className="text-sm text-gray-400">Client Seed</label>
+        <input
+          type="text"
+          value={input.clientSeed}
+          onChange={(e) => update({ clientSeed: e.target.value })}
+          className="bg-gray-700 py-2 px-3 rounded font-mono text-sm focus:outline-none"
+        />
+        
+        <label className="text-sm text-gray-400">Nonce</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={input.nonce}
+          onChange={(e) => update({ nonce: e.target.value })}
+          className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+        />
+        
+        <div className="grid grid-cols-3 gap-2">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Rows</label>
+            <select
+              value={input.rows}
+              onChange={(e) => update({ rows: Number(e.target.value) })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            >
+              {SUPPORTED_ROWS.map(rows => <option key={rows} value={rows}>{rows}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Risk</label>
+            <select
+              value={input.riskMode}
+              onChange={(e) => update({ riskMode: e.target.value as RiskMode })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            >
+              {RISK_MODES.map(risk => <option key={risk} value={risk}>{risk}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">RNG</label>
+            <select
+              value={input.rngVersion}
+              onChange={(e) => update({ rngVersion: e.target.value as RngVersion })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            >
+              {RNG_VERSIONS.map(version => <option key={version} value={version}>{version}</option>)}
+            </select>
+          </div>
+        </div>
+        
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Reported Bucket</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={input.reportedResult ?? ''}
+              onChange={(e) => update({ reportedResult: reportedNumber(e.target.value) })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Reported Multiplier</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={input.reportedMultiplier ?? ''}
+              onChange={(e) => update({ reportedMultiplier: reportedNumber(e.target.value) })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Bet (base units)</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={input.betAmount ?? ''}
+              onChange={(e) => update({ betAmount: reportedNumber(e.target.value) })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-400">Reported Payout (base units)</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={input.reportedWinAmount ?? ''}
+              onChange={(e) => update({ reportedWinAmount: reportedNumber(e.target.value) })}
+              className="bg-gray-700 py-2 px-3 rounded focus:outline-none"
+            />
+          </div>
+        </div>
+        
+        <button
+          onClick={() => verify(input)}
+          className="bg-blue-600 hover:bg-blue-700 py-2 rounded font-semibold"
+        >
+          Verify
+        </button>
+        
+        <label className="text-sm text-gray-400 mt-2">Or paste a result JSON</label>
+        <textarea
+          value={resultJson}
+          onChange={(e) => setResultJson(e.target.value)}
+          rows={5}
+          placeholder='{"serverSeed": "…", "clientSeed": "…", "nonce": 0, "rows": 16, "riskMode": "medium", "gameResult": 8, "finalMultiplier": 0.3}'
+          className="bg-gray-700 py-2 px-3 rounded font-mono text-xs focus:outline-none"
+        />
+        <button
+          onClick={handlePasteResult}
+          disabled={!resultJson.trim()}
+          className="bg-gray-700 hover:bg-gray-600 py-2 rounded disabled:opacity-50"
+        >
+          Verify Pasted Result
+        </button>
+        
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+      </div>
+      
+      {/* Outcome */}
+      <div className="flex-1 flex flex-col gap-4">
+        {verification && (
+          <div className="bg-gray-800 rounded-lg p-4 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <div className="text-lg font-semibold">
+                Bucket {verification.gameResult} · {verification.finalMultiplier}x
+                {verification.winAmount !== null && ` · payout ${verification.winAmount}`}
+              </div>
+              {verification.matches === null ? (
+                <span className="px-3 py-1 rounded-full bg-gray-600 text-sm">Nothing reported to compare</span>
+              ) : verification.matches ? (
+                <span className="px-3 py-1 rounded-full bg-green-600 text-sm font-semibold">Matches the reported result</span>
+              ) : (
+                <span className="px-3 py-1 rounded-full bg-red-600 text-sm font-semibold">
+                  Does not match: reported bucket {verification.input.reportedResult ?? '—'} at {verification.input.reportedMultiplier ?? '—'}x,
+                  payout {verification.input.reportedWinAmount ?? '—'}
+                </span>
+              )}
+            </div>
+            <div className="text-sm text-gray-400 break-all">
+              sha256(server seed) = <span className="font-mono">{verification.hashedServerSeed}</span>
+            </div>
+            {verification.receiptValid !== null && (
+              <div>
+                {verification.receiptValid ? (
+                  <span className="px-3 py-1 rounded-full bg-green-600 text-sm font-semibold">Receipt signed by the server</span>
+                ) : (
+                  <span className="px-3 py-1 rounded-full bg-red-600 text-sm font-semibold">Receipt signature is not valid for this result</span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        
+        <div className="h-[500px] relative">
+          <PlinkoBoard
+            rows={verification?.input.rows ?? input.rows}
+            path={verification?.path ?? []}
+            isPlaying={isReplaying}
+            onAnimationComplete={() => setIsReplaying(false)}
+            multipliers={getMultipliers(verification?.input.riskMode ?? input.riskMode, verification?.input.rows ?? input.rows)}
+            riskMode={verification?.input.riskMode ?? input.riskMode}
+            showPathInitially={true}
+          />
+          {verification && !isReplaying && (
+            <button
+              onClick={() => setIsReplaying(true)}
+              className="absolute top-2 left-2 z-10 bg-gray-800 text-white text-xs px-2 py-1 rounded-md opacity-70 hover:opacity-100"
+            >
+              Replay
+            </button>
+          )}
+        </div>
+        
+        {verification && (
+          <div className="bg-gray-800 rounded-lg p-4 overflow-x-auto">
+            <h3 className="text-lg font-semibold mb-3">Step by Step</h3>
+            <table className="w-full min-w-full text-sm">
+              <thead className="border-b border-gray-700">
+                <tr>
+                  <th className="py-2 px-4 text-left">Row</th>
+                  <th className="py-2 px-4 text-left">Digest</th>
+                  <th className="py-2 px-4 text-left">Bytes</th>
+                  <th className="py-2 px-4 text-left">Float</th>
+                  <th className="py-2 px-4 text-left">Direction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {verification.draws.map(draw => (
+                  <tr key={draw.row} className="border-b border-gray-700">
+                    <td className="py-2 px-4">{draw.row + 1}</td>
+                    <td className="py-2 px-4 text-gray-400">{drawSource(draw, verification.input)}</td>
+                    <td className="py-2 px-4 font-mono">{formatBytes(draw.bytes)}</td>
+                    <td className="py-2 px-4 font-mono">{draw.value.toFixed(8)}</td>
+                    <td className={`py-2 px-4 font-semibold ${draw.direction ? 'text-orange-400' : 'text-blue-400'}`}>
+                      {draw.direction ? 'Right' : 'Left'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-3 text-sm text-gray-400">
+              A float below 0.5 bounces left, otherwise right.{' '}
+              {verification.input.rngVersion === 'v1'
+                ? `v1 scales the end position onto 17 buckets: ${verification.gameResult}.`
+                : `The bucket is the number of rights: ${verification.gameResult}.`}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { describeApiError, PlinkoApi } from '../../utils/apiClient';
+import { SeedHistoryPage } from '../../../shared/protocol';
+
+interface SeedHistoryProps {
+  wallet: string;
+  // Changes whenever a seed pair is retired, so the table reloads
+  refreshKey: number;
+  pageSize?: number;
+}
+
+// Shorten a 64 character hash for the table, the full value is in the title
+const shorten = (value: string) => `${value.slice(0, 10)}…${value.slice(-6)}`;
+
+export default function SeedHistory({ wallet, refreshKey, pageSize = 10 }: SeedHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [history, setHistory] = useState<SeedHistoryPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    const controller = new AbortController();
+    
+    PlinkoApi.getSeedHistory(wallet, page, pageSize, { signal: controller.signal })
+      .then(data => {
+        setHistory(data);
+        setError(null);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) setError(describeApiError(error, 'Failed to load seed history.'));
+      });
+    
+    return () => controller.abort();
+  }, [wallet, page, pageSize, refreshKey]);
+  
+  if (!history || history.total === 0) {
+    return error ? <div className="mt-6 text-red-400 text-sm">{error}</div> : null;
+  }
+  
+  const pageCount = Math.max(1, Math.ceil(history.total / pageSize));
+  
+  return (
+    <div className="mt-6 bg-gray-800 rounded-lg p-4 text-white overflow-hidden">
+      <h3 className="text-lg font-semibold mb-3">Seed History</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-full text-sm">
+          <thead className="border-b border-gray-700">
+            <tr>
+              <th className="py-2 px-4 text-left">Retired</th>
+              <th className="py-2 px-4 text-left">Server Seed (hashed)</th>
+              <th className="py-2 px-4 text-left">Server Seed</th>
+              <th className="py-2 px-4 text-left">Client Seed</th>
+              <th className="py-2 px-4 text-left">Nonces</th>
+              <th className="py-2 px-4 text-left">Bets</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.items.map(record => (
+              <tr key={record.id} className="border-b border-gray-700 hover:bg-gray-700">
+                <td className="py-2 px-4">{new Date(record.retiredAt).toLocaleString()}</td>
+                <td className="py-2 px-4 font-mono" title={record.hashedServerSeed}>
+                  {shorten(record.hashedServerSeed)}
+                </td>
+                <td className="py-2 px-4 font-mono" title={record.serverSeed}>
+                  {record.serverSeed ? shorten(record.serverSeed) : (
+                    <span className="text-gray-500">Hidden until rotated</span>
+                  )}
+                </td>
+                <td className="py-2 px-4 font-mono break-all">{record.clientSeed}</td>
+                <td className="py-2 px-4">
+                  {record.nonceRange ? `${record.nonceRange.first}–${record.nonceRange.last}` : '—'}
+                </td>
+                <td className="py-2 px-4">{record.betCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      
+      <div className="flex items-center justify-between mt-3 text-sm">
+        <button
+          onClick={() => setPage(page - 1)}
+          disabled={page <= 1}
+          className="bg-gray-700 px-3 py-1 rounded disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <span className="text-gray-400">Page {page} of {pageCount}</span>
+        <button
+          onClick={() => setPage(page + 1)}
+          disabled={page >= pageCount}
+          className="bg-gray-700 px-3 py-1 rounded disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 
 interface AuthContextType {
+  // True while the game server holds a signed-in session for the wallet
   isLoggedIn: boolean;
-  setIsLoggedIn: (value: boolean) => void;
+  sessionWallet: string | null;
+  setSessionWallet: (wallet: string | null) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [sessionWallet, setSessionWallet] = useState<string | null>(null);
 
   return (
-    <AuthContext.Provider value={{ isLoggedIn, setIsLoggedIn }}>
+    <AuthContext.Provider value={{ isLoggedIn: sessionWallet !== null, sessionWallet, setSessionWallet }}>
       {children}
     </AuthContext.Provider>
   );
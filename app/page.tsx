@@ -43,7 +43,7 @@ export default function Home() {
             Try our new server-verified Plinko game with proper casino mathematics and provable fairness.
           </p>
           
-          <PlinkoGameClient initialBalance={1000} />
+          <PlinkoGameClient initialBalance={0} />
         </div>
       </main>
       
@@ -0,0 +1,20 @@
+import Link from 'next/link';
+import BetPermalink from '../../../components/plinko/BetPermalink';
+
+interface BetPageProps {
+  params: Promise<{ gameId: string }>;
+}
+
+export default async function PlinkoBetPage({ params }: BetPageProps) {
+  const { gameId } = await params;
+  
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-white">Bet <span className="font-mono text-lg text-gray-400">{gameId}</span></h1>
+        <Link href="/plinko" className="text-blue-400 hover:text-blue-300 text-sm">Back to the game</Link>
+      </div>
+      <BetPermalink gameId={gameId} />
+    </div>
+  );
+}
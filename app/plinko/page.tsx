@@ -1,3 +1,4 @@
+import Link from 'next/link';
 import PlinkoGameClient from '../components/plinko/PlinkoGameClient';
 
 export default function PlinkoGamePage() {
@@ -5,7 +6,7 @@ export default function PlinkoGamePage() {
     <div className="container mx-auto p-4 max-w-7xl">
       <h1 className="text-2xl font-bold mb-6 text-white">Plinko Game</h1>
       <div className="bg-gray-900 rounded-lg shadow-xl overflow-hidden p-4">
-        <PlinkoGameClient initialBalance={1000} />
+        <PlinkoGameClient initialBalance={0} />
       </div>
       
       {/* Provably Fair Explanation */}
@@ -34,6 +35,9 @@ export default function PlinkoGamePage() {
           <div>
             <h3 className="font-semibold text-lg">Verification</h3>
             <p>After each game, you can verify that the outcome was determined by the combination of the server seed, client seed, and nonce.</p>
+            <Link href="/plinko/verify" className="inline-block mt-2 text-blue-400 hover:text-blue-300">
+              Verify a bet in your browser →
+            </Link>
           </div>
         </div>
       </div>
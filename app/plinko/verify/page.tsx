@@ -0,0 +1,59 @@
+import Link from 'next/link';
+import PlinkoVerifier, { VerifyInput } from '../../components/plinko/PlinkoVerifier';
+import { RiskMode, RISK_MODES, RngVersion, RNG_VERSIONS, SUPPORTED_ROWS } from '../../../shared/fairness';
+
+interface VerifyPageProps {
+  searchParams: Promise<Record<string, string | undefined>>;
+}
+
+// Seeds and table may be passed in the query string, e.g. from a bet's permalink
+function inputFromQuery(query: Record<string, string | undefined>): Partial<VerifyInput> {
+  const input: Partial<VerifyInput> = {
+    serverSeed: query.serverSeed,
+    clientSeed: query.clientSeed,
+    nonce: query.nonce
+  };
+  
+  if (SUPPORTED_ROWS.includes(Number(query.rows))) {
+    input.rows = Number(query.rows);
+  }
+  
+  if (RISK_MODES.includes(query.risk as RiskMode)) {
+    input.riskMode = query.risk as RiskMode;
+  }
+  
+  if (RNG_VERSIONS.includes(query.rngVersion as RngVersion)) {
+    input.rngVersion = query.rngVersion as RngVersion;
+  }
+  
+  if (query.bucket !== undefined && query.multiplier !== undefined) {
+    input.reportedResult = Number(query.bucket);
+    input.reportedMultiplier = Number(query.multiplier);
+  }
+  
+  if (query.betAmount !== undefined && query.winAmount !== undefined) {
+    input.betAmount = Number(query.betAmount);
+    input.reportedWinAmount = Number(query.winAmount);
+  }
+  
+  // Leave out missing values so the verifier's defaults apply
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+}
+
+export default async function PlinkoVerifyPage({ searchParams }: VerifyPageProps) {
+  const initialInput = inputFromQuery(await searchParams);
+  
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-white">Verify a Bet</h1>
+        <Link href="/plinko" className="text-blue-400 hover:text-blue-300 text-sm">Back to the game</Link>
+      </div>
+      <p className="mb-6 text-gray-300">
+        Results are recomputed in your browser from the revealed server seed, your client seed and the nonce.
+        Nothing is sent to the server.
+      </p>
+      <PlinkoVerifier initialInput={initialInput} />
+    </div>
+  );
+}
@@ -4,10 +4,22 @@ export interface PlinkoConfig {
   columns: number;
   buckets: number;
   houseEdge: number;
+  rtp: number;
   
   // Multipliers array for client-side display
   multipliers: number[];
   
+  // Exact odds of each bucket and its share of the RTP
+  odds: BucketOdds[];
+  
+  // Amounts are integer base units of this currency
+  currency: { symbol: string; decimals: number };
+  multiplierScale: number;
+  
+  // Bet limits for this table in base units, maxBet already accounts for
+  // the payout cap and the house bankroll
+  limits: BetLimits;
+  
   // Canvas and rendering settings
   canvasWidth: number;
   canvasHeight: number;
@@ -51,21 +63,20 @@ export interface RiskLevel {
   name: string;
 }
 
+export interface BucketOdds {
+  bucket: number;
+  probability: number;
+  multiplier: number;
+  contribution: number;
+}
+
+export interface BetLimits {
+  minBet: number;
+  maxBet: number;
+  maxPayout: number;
+}
+
 export interface BucketColorRule {
   threshold: number;
   color: string;
 }
-
-/**
- * Game result from the server
- */
-export interface GameResult {
-  gameId: string;
-  bucket: number;
-  path: number[];
-  multiplier: number;
-  payout: number;
-  nonce: number;
-  clientSeed?: string;
-  revealedSeed?: string;
-} 
\ No newline at end of file
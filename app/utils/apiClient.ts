@@ -1,195 +1,225 @@
-import { GameResult } from "../types/plinko";
-import { PlinkoConfig } from "../types/plinko";
+import type { Socket } from 'socket.io-client';
+import { PlinkoConfig } from '../types/plinko';
+import {
+  AuditProof,
+  BetDetails,
+  ClientToServerEvents,
+  PROTOCOL_VERSION,
+  SeedHistoryPage,
+  ServerToClientEvents
+} from '../../shared/protocol';
 
 /**
- * Client for interacting with the Plinko API
+ * What went wrong with a request, so components can tell the player something useful:
+ * - network: the API could not be reached or did not answer in time
+ * - validation: the request was refused, `message` and `field` say why
+ * - insufficient_balance: the bet is larger than the balance
+ * - server: the API or the game server behind it failed
  */
-export const PlinkoApi = {
-  /**
-   * Get server health status
-   */
-  async getHealth(): Promise<{ status: string; message: string }> {
-    console.log('Checking server health...');
-    try {
-      const response = await fetch('/api/plinko/health');
-      console.log('Health check response status:', response.status);
-      
-      if (!response.ok) {
-        console.error('Health check failed:', response.statusText);
-        throw new Error(`Failed to fetch server health: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      console.log('Health check response data:', data);
-      return data;
-    } catch (error) {
-      console.error('Health check error:', error);
-      throw error;
-    }
-  },
+export type ApiErrorKind = 'network' | 'validation' | 'insufficient_balance' | 'server';
 
-  /**
-   * Get plinko game configuration from the server
-   * This includes multipliers, number of rows, and other game settings
-   */
-  async getConfig(riskLevel: string = 'medium'): Promise<PlinkoConfig> {
-    console.log('Fetching plinko game configuration...');
-    console.log('Using risk level:', riskLevel);
-    console.log('API URL from env:', process.env.NEXT_PUBLIC_API_URL);
-    
-    // TEMPORARY: Use hardcoded URL for debugging
-    const hardcodedUrl = 'http://localhost:3000/api/plinko/config?risk=' + riskLevel;
-    console.log('Using hardcoded URL:', hardcodedUrl);
+export class ApiError extends Error {
+  constructor(
+    public kind: ApiErrorKind,
+    message: string,
+    // HTTP status, missing for network errors
+    public status?: number,
+    // Error code sent by the server, e.g. INVALID_ROWS
+    public code?: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Text to show the player for a failed request
+export function describeApiError(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) {
+    return fallback;
+  }
+  
+  switch (error.kind) {
+    case 'network':
+      return 'Cannot reach the game server, check your connection and try again.';
+    case 'insufficient_balance':
+      return 'Your balance is too low for this bet.';
+    case 'validation':
+      return error.message;
+    case 'server':
+      return `${fallback} The game server had a problem, try again shortly.`;
+  }
+}
+
+export interface ApiClientOptions {
+  // Prefix of every request, empty to call the Next API routes of the current origin
+  baseUrl?: string;
+  timeoutMs?: number;
+  // Extra attempts for GET requests that fail on the network or with a 5xx
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+export interface RequestOptions {
+  // Aborting rejects with the signal's reason instead of an ApiError
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ApiClientOptions> = {
+  baseUrl: '',
+  timeoutMs: 10000,
+  retries: 2,
+  retryDelayMs: 300
+};
+
+// Error bodies are { code, message, field } from the game server, or { error } from the route itself
+interface ErrorBody {
+  code?: string;
+  message?: string;
+  field?: string;
+  error?: string;
+}
+
+async function errorFromResponse(response: Response): Promise<ApiError> {
+  const body: ErrorBody = await response.json().catch(() => ({}));
+  const message = body.message || body.error || response.statusText || `Request failed with status ${response.status}`;
+  
+  if (body.code === 'INSUFFICIENT_BALANCE') {
+    return new ApiError('insufficient_balance', message, response.status, body.code, body.field);
+  }
+  
+  const kind = response.status >= 400 && response.status < 500 ? 'validation' : 'server';
+  return new ApiError(kind, message, response.status, body.code, body.field);
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Client for the Plinko REST API. Every method takes optional per-request
+ * options and rejects with an ApiError.
+ */
+export function createApiClient(clientOptions: ApiClientOptions = {}) {
+  const { baseUrl, timeoutMs, retries, retryDelayMs } = { ...DEFAULT_OPTIONS, ...clientOptions };
+  
+  // One attempt, aborted by the caller's signal or after the timeout
+  async function attempt(path: string, init: RequestInit, options: RequestOptions): Promise<Response> {
+    const controller = new AbortController();
+    const abort = () => controller.abort(options.signal?.reason);
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? timeoutMs);
+    options.signal?.addEventListener('abort', abort);
     
     try {
-      const response = await fetch(hardcodedUrl);
-      console.log('Config response status:', response.status);
+      const response = await fetch(`${baseUrl}${path}`, { ...init, signal: controller.signal });
       
       if (!response.ok) {
-        console.error('Config fetch failed:', response.statusText);
-        throw new Error(`Failed to fetch game configuration: ${response.statusText}`);
+        throw await errorFromResponse(response);
       }
       
-      const data = await response.json();
-      console.log('Plinko configuration:', data);
-      return data;
+      return response;
     } catch (error) {
-      console.error('Config fetch error:', error);
-      throw error;
-    }
-  },
-
-  /**
-   * Get the current server seed hash for provable fairness
-   */
-  async getServerSeedHash(): Promise<{ serverSeedHash: string }> {
-    console.log('Fetching server seed hash...');
-    try {
-      const response = await fetch('/api/plinko/seed');
-      
-      if (!response.ok) {
-        console.error('Seed hash fetch failed:', response.statusText);
-        throw new Error(`Failed to fetch server seed hash: ${response.statusText}`);
+      if (error instanceof ApiError || options.signal?.aborted) {
+        throw error;
       }
       
-      const data = await response.json();
-      console.log('Server seed hash:', data);
-      return data;
-    } catch (error) {
-      console.error('Seed hash fetch error:', error);
-      throw error;
+      const message = controller.signal.aborted ? 'The request timed out' : 'The request could not be sent';
+      throw new ApiError('network', message);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
     }
-  },
-
-  /**
-   * Generate a new plinko game result from the backend
-   * @param betAmount Amount wagered
-   * @param riskLevel Risk level (determines the multipliers)
-   */
-  async generateGameResult(
-    betAmount: number, 
-    riskLevel: string = 'medium'
-  ): Promise<GameResult> {
-    console.log(`Generating game result: bet=${betAmount}, risk=${riskLevel}`);
-    
-    // Generate a client seed for this game
-    const clientSeed = crypto.randomUUID();
-    
-    const requestBody = {
-      betAmount,
-      clientSeed,
-      riskLevel
-    };
+  }
+  
+  async function request<T>(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+    // Only GETs are safe to send again, a repeated POST could place a second bet
+    const attempts = !init.method || init.method === 'GET' ? retries + 1 : 1;
     
-    console.log('Request payload:', requestBody);
-
-    try {
-      const response = await fetch('/api/plinko/path', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-      
-      console.log('Game result response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Game result error:', errorText);
-        throw new Error(`Failed to generate game result: ${response.statusText}`);
+    for (let i = 1; ; i++) {
+      try {
+        const response = await attempt(path, init, options);
+        
+        return await response.json().catch(() => {
+          throw new ApiError('server', 'The response could not be read', response.status);
+        });
+      } catch (error) {
+        const retryable = error instanceof ApiError && (error.kind === 'network' || error.kind === 'server');
+        
+        if (!retryable || i >= attempts || options.signal?.aborted) {
+          throw error;
+        }
+        
+        await wait(retryDelayMs * 2 ** (i - 1));
       }
-      
-      const data = await response.json();
-      console.log('Game result data:', data);
-      
-      // Save the client seed and server details for verification
-      localStorage.setItem(`plinko-game-${data.gameId}`, JSON.stringify({
-        clientSeed,
-        gameId: data.gameId,
-        nonce: data.nonce,
-        timestamp: Date.now()
-      }));
-      
-      return {
-        ...data,
-        clientSeed
-      };
-    } catch (error) {
-      console.error('Game result request error:', error);
-      throw error;
     }
-  },
+  }
   
-  /**
-   * Verify a game result for provable fairness
-   * @param gameId ID of the game to verify
-   */
-  async verifyGame(gameId: string): Promise<any> {
-    console.log(`Verifying game result: id=${gameId}`);
-    
-    // Retrieve the saved game data
-    const savedGameData = localStorage.getItem(`plinko-game-${gameId}`);
+  return {
+    /**
+     * Get the configuration of a table: multipliers, odds, bet limits and rendering settings
+     */
+    getConfig(riskLevel: string = 'medium', rows: number = 16, options?: RequestOptions) {
+      const query = new URLSearchParams({ risk: riskLevel, rows: String(rows) });
+      return request<PlinkoConfig>(`/api/plinko/config?${query}`, {}, options);
+    },
     
-    if (!savedGameData) {
-      throw new Error('Game data not found for verification');
-    }
+    /**
+     * Get the base64 ed25519 public key bet receipts are signed with
+     */
+    getReceiptPublicKey(options?: RequestOptions) {
+      return request<{ algorithm: 'ed25519'; encoding: 'base64'; publicKey: string }>(
+        '/api/plinko/receipts/public-key', {}, options
+      );
+    },
     
-    const { clientSeed } = JSON.parse(savedGameData);
+    /**
+     * Get the proof that a bet is in the latest published audit root
+     * @param gameId ID of the game
+     * @returns null when the bet is unknown or not covered by a published root yet
+     */
+    async getAuditProof(gameId: string, options?: RequestOptions): Promise<AuditProof | null> {
+      try {
+        return await request<AuditProof>(`/api/plinko/audit/proof?${new URLSearchParams({ gameId })}`, {}, options);
+      } catch (error) {
+        if (error instanceof ApiError && (error.status === 404 || error.status === 409)) {
+          return null;
+        }
+        
+        throw error;
+      }
+    },
     
-    const requestBody = {
-      gameId,
-      clientSeed
-    };
+    /**
+     * Get a page of a player's retired seed pairs, newest first
+     * @param wallet Wallet public key of the player
+     * @param page Page number, starting at 1
+     */
+    getSeedHistory(wallet: string, page: number = 1, pageSize: number = 20, options?: RequestOptions) {
+      const query = new URLSearchParams({ wallet, page: String(page), pageSize: String(pageSize) });
+      return request<SeedHistoryPage>(`/api/plinko/seeds/history?${query}`, {}, options);
+    },
     
-    console.log('Verification request payload:', requestBody);
-
-    try {
-      const response = await fetch('/api/plinko/verify', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-      
-      console.log('Verification response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Verification error:', errorText);
-        throw new Error(`Failed to verify game result: ${response.statusText}`);
+    /**
+     * Look up any settled bet, for its permalink page
+     * @param gameId ID of the game
+     * @returns null when there is no bet with this id
+     */
+    async getBet(gameId: string, options?: RequestOptions): Promise<BetDetails | null> {
+      try {
+        return await request<BetDetails>(`/api/plinko/bets/${encodeURIComponent(gameId)}`, {}, options);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) {
+          return null;
+        }
+        
+        throw error;
       }
-      
-      const data = await response.json();
-      console.log('Verification data:', data);
-      return data;
-    } catch (error) {
-      console.error('Verification request error:', error);
-      throw error;
     }
-  }
-};
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+export const PlinkoApi = createApiClient();
 
 // Initialize Socket.io client for real-time updates
 export const initializeSocketClient = async () => {
@@ -199,12 +229,9 @@ export const initializeSocketClient = async () => {
   // Get the backend URL from environment or use default
   const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3333';
   
-  console.log('Connecting to socket server at:', API_BASE_URL);
-  
-  const socket = io(API_BASE_URL);
-  
-  socket.on('connect', () => {
-    console.log('Connected to Plinko server:', socket.id);
+  // The server refuses handshakes without the protocol version it speaks
+  const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(API_BASE_URL, {
+    auth: { protocolVersion: PROTOCOL_VERSION }
   });
   
   socket.on('connect_error', (error) => {
@@ -212,4 +239,4 @@ export const initializeSocketClient = async () => {
   });
   
   return socket;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { ErrorPayload } from '../../shared/protocol';
+import { parse, REQUEST_ID_PATTERN, Validator } from '../../shared/validation';
+
+// Server-side helpers of the routes in app/api/plinko, which forward to the Express game server
+
+const GAME_SERVER_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3333';
+const PROXY_TIMEOUT_MS = parseInt(process.env.PROXY_TIMEOUT_MS || '5000');
+
+// Answer from ./embeddedEngine instead of the game server, see README
+const EMBEDDED_ENGINE = process.env.PLINKO_ENGINE === 'embedded';
+
+export function reply(body: unknown, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+// Same error body as the game server's sendError
+export function replyError(status: number, error: ErrorPayload) {
+  return reply({ status: 'error', ...error }, status);
+}
+
+// The caller's X-Request-Id when it is well formed, a new one otherwise
+export function requestIdOf(request: Request): string {
+  const incomingId = request.headers.get('x-request-id');
+  return incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+}
+
+// Every answer of the routes carries the request id, whichever side produced it
+export function withRequestId<T extends Response>(response: T, requestId: string): T {
+  response.headers.set('X-Request-Id', requestId);
+  return response;
+}
+
+export interface ProxyRequest {
+  // Path on the game server, including any encoded path parameters
+  path: string;
+  method?: 'GET' | 'POST';
+  // Query values for a GET or the JSON body for a POST. When a schema is given the
+  // input is checked before anything is sent, and only the parsed value is forwarded.
+  input?: unknown;
+  schema?: Validator<unknown>;
+  // Successful GET answers are reused for this long
+  cacheMs?: number;
+}
+
+interface CachedResponse {
+  status: number;
+  body: string;
+  contentType: string;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedResponse>();
+
+function passThrough(upstream: Omit<CachedResponse, 'expiresAt'>, requestId: string) {
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: { 'Content-Type': upstream.contentType, 'X-Request-Id': requestId }
+  });
+}
+
+function queryString(values: unknown): string {
+  const query = new URLSearchParams();
+  
+  Object.entries(values && typeof values === 'object' ? values : {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      query.set(key, String(value));
+    }
+  });
+  
+  const encoded = query.toString();
+  return encoded ? `?${encoded}` : '';
+}
+
+/**
+ * Forward a request to the game server and answer with its status and body.
+ * The caller's X-Request-Id, or a new one, is sent upstream and set on every
+ * answer. A server that can't be reached answers 502, one that doesn't answer in time 504.
+ */
+export async function proxyToGameServer(request: Request, upstream: ProxyRequest): Promise<NextResponse> {
+  const requestId = requestIdOf(request);
+  const method = upstream.method || 'GET';
+  let input = upstream.input;
+  
+  if (upstream.schema) {
+    const parsed = parse(upstream.schema, input);
+    
+    if (!parsed.ok) {
+      return withRequestId(replyError(400, parsed.error), requestId);
+    }
+    
+    input = parsed.value;
+  }
+  
+  // Imported on first use, so the engine and the server config it reads at import
+  // are only loaded in embedded mode
+  if (EMBEDDED_ENGINE) {
+    const { answerInProcess } = await import('./embeddedEngine');
+    return withRequestId(answerInProcess(method, upstream.path, input), requestId);
+  }
+  
+  const url = method === 'GET' ? `${upstream.path}${queryString(input)}` : upstream.path;
+  const cached = upstream.cacheMs ? cache.get(url) : undefined;
+  
+  if (cached && cached.expiresAt > Date.now()) {
+    return passThrough(cached, requestId);
+  }
+  
+  try {
+    const response = await fetch(`${GAME_SERVER_URL}${url}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Request-Id': requestId },
+      body: method === 'POST' ? JSON.stringify(input) : undefined,
+      signal: AbortSignal.timeout(PROXY_TIMEOUT_MS)
+    });
+    
+    const answer = {
+      status: response.status,
+      body: await response.text(),
+      contentType: response.headers.get('content-type') || 'application/json'
+    };
+    
+    if (upstream.cacheMs && response.status === 200) {
+      cache.set(url, { ...answer, expiresAt: Date.now() + upstream.cacheMs });
+    }
+    
+    return passThrough(answer, requestId);
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    console.error(`[${requestId}] ${method} ${upstream.path} failed:`, error);
+    
+    const response = timedOut
+      ? replyError(504, { code: 'UPSTREAM_TIMEOUT', message: 'The game server did not answer in time' })
+      : replyError(502, { code: 'UPSTREAM_UNAVAILABLE', message: 'Failed to connect to game server' });
+    
+    return withRequestId(response, requestId);
+  }
+}
+
+// JSON object body of a route request, null for anything else so the schema refuses it
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  const body = await request.json().catch(() => null);
+  return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+}
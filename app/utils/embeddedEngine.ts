@@ -0,0 +1,142 @@
+import { buildPlinkoConfig } from '../../server/src/utils/plinkoConfig';
+import { getBetLimits, HOUSE_BANKROLL } from '../../server/src/utils/limits';
+import { merkleRoot } from '../../server/src/utils/merkle';
+import { createDemoGame, RestReply } from '../../server/src/utils/demoGame';
+import { createDemoGameStore } from '../../server/src/storage/demoGames';
+import { GENESIS_HASH } from '../../server/src/storage/auditLog';
+import {
+  parse,
+  auditProofSchema,
+  betLookupSchema,
+  configQuerySchema,
+  seedChainQuerySchema,
+  seedHistoryQuerySchema
+} from '../../shared/validation';
+import { reply, replyError } from './apiProxy';
+
+// With PLINKO_ENGINE=embedded the routes in app/api/plinko answer from this module
+// instead of proxying to the Express server, so previews and demos run without it.
+// Demo drops are played, rotated and verified by the server's own utils/demoGame.ts
+// and kept in the same store. Real bets are out of scope: the game page places them
+// over the socket with a signed-in wallet, so sign-in, balances, autobet, receipts
+// and the audit log only exist on the server, and their routes answer as they would
+// for an unknown wallet or bet.
+// Only loaded by apiProxy in that mode, as it reads the server's config at import.
+
+const demoGame = createDemoGame(createDemoGameStore());
+
+const answer = ({ status, body }: RestReply) => reply(body, status);
+
+const gameNotFound = () => replyError(404, { code: 'GAME_NOT_FOUND', message: 'Game not found', field: 'gameId' });
+
+const engine = {
+  health() {
+    return reply({ status: 'ok', message: 'Plinko engine is running in-process' });
+  },
+  
+  // No wallet bets in-process, so the house bankroll never moves
+  config(query: unknown) {
+    const parsed = parse(configQuerySchema, query);
+    
+    if (!parsed.ok) {
+      return replyError(400, parsed.error);
+    }
+    
+    const { risk, rows } = parsed.value;
+    return reply(buildPlinkoConfig(risk, rows, getBetLimits(risk, rows, HOUSE_BANKROLL)));
+  },
+  
+  // No wallet accounts in-process, so no seed chain either and every wallet is unknown
+  seedChain(query: unknown) {
+    const parsed = parse(seedChainQuerySchema, query);
+    
+    if (!parsed.ok) {
+      return replyError(400, parsed.error);
+    }
+    
+    if (!parsed.value.wallet) {
+      return replyError(404, { code: 'SERVER_ONLY', message: 'Seed chains are only kept by the game server' });
+    }
+    
+    return replyError(404, { code: 'ACCOUNT_NOT_FOUND', message: 'No seed chain for this wallet', field: 'wallet' });
+  },
+  
+  seedHistory(query: unknown) {
+    const parsed = parse(seedHistoryQuerySchema, query);
+    
+    if (!parsed.ok) {
+      return replyError(400, parsed.error);
+    }
+    
+    return reply({ ...parsed.value, items: [], total: 0 });
+  },
+  
+  // Only wallet bets are signed, and only by the server
+  receiptPublicKey() {
+    return replyError(404, { code: 'SERVER_ONLY', message: 'Receipts are only signed by the game server' });
+  },
+  
+  // The audit log covers wallet bets only, so in-process it stays empty
+  auditRoot() {
+    return reply({ size: 0, root: merkleRoot([]), headHash: GENESIS_HASH, timestamp: Date.now() });
+  },
+  
+  auditProof(query: unknown) {
+    const parsed = parse(auditProofSchema, query);
+    
+    if (!parsed.ok) {
+      return replyError(400, parsed.error);
+    }
+    
+    return gameNotFound();
+  },
+  
+  bet(gameId: string) {
+    const parsed = parse(betLookupSchema, { gameId });
+    
+    if (!parsed.ok) {
+      return replyError(400, parsed.error);
+    }
+    
+    const bet = demoGame.bet(parsed.value.gameId);
+    return bet ? reply(bet) : gameNotFound();
+  }
+};
+
+const BET_PATH = /^\/api\/plinko\/bets\/([^/]+)$/;
+
+// Answer a request apiProxy would have sent to the game server, routed by its path there
+export function answerInProcess(method: string, route: string, input: unknown) {
+  const bet = route.match(BET_PATH);
+  
+  if (method === 'GET' && bet) {
+    return engine.bet(decodeURIComponent(bet[1]));
+  }
+  
+  switch (`${method} ${route}`) {
+    case 'GET /api/health':
+      return engine.health();
+    case 'GET /api/plinko/config':
+      return engine.config(input);
+    case 'GET /api/plinko/seed':
+      return answer(demoGame.seed());
+    case 'POST /api/plinko/seed/rotate':
+      return answer(demoGame.rotateSeed());
+    case 'GET /api/plinko/seeds/chain':
+      return engine.seedChain(input);
+    case 'GET /api/plinko/seeds/history':
+      return engine.seedHistory(input);
+    case 'GET /api/plinko/receipts/public-key':
+      return engine.receiptPublicKey();
+    case 'GET /api/plinko/audit/root':
+      return engine.auditRoot();
+    case 'GET /api/plinko/audit/proof':
+      return engine.auditProof(input);
+    case 'POST /api/plinko/path':
+      return answer(demoGame.play(input));
+    case 'POST /api/plinko/verify':
+      return answer(demoGame.verify(input));
+    default:
+      return replyError(404, { code: 'ROUTE_NOT_FOUND', message: `No in-process answer for ${method} ${route}` });
+  }
+}
@@ -1,15 +1,54 @@
 'use client';
 
 import { io, Socket } from 'socket.io-client';
+import { Currency, DEFAULT_CURRENCY } from '../../shared/units';
+import {
+  AuthSuccess,
+  AutobetSettings,
+  AutobetStatus,
+  BatchResult,
+  ClientToServerEvents,
+  ErrorCode,
+  ErrorPayload,
+  GameHistoryEntry,
+  GameResult,
+  LedgerEntry,
+  MissedResult,
+  NewSeed,
+  PlayAck,
+  PROTOCOL_VERSION,
+  ProtocolMismatch,
+  RevealedSeed,
+  SeedChainInfo,
+  ServerToClientEvents
+} from '../../shared/protocol';
+import { verifyGameResult } from '../../shared/fairness/webcrypto';
+
+// Event payloads are defined once for the server and the client
+export type {
+  SeedChainInfo,
+  GameResult,
+  BatchResult,
+  MissedResult,
+  GameHistoryEntry,
+  AutobetStrategy,
+  AutobetSettings,
+  AutobetStatus,
+  LedgerEntryType,
+  LedgerEntry
+} from '../../shared/protocol';
 
 export interface GameState {
   clientSeed: string;
   hashedServerSeed: string;
   serverSeed?: string;
+  seedChain?: SeedChainInfo;
+  // Amounts are integer base units of the currency
   balance: number;
+  currency: Currency;
   isPlaying: boolean;
   nonce?: number;
-  gameHistory: GameResult[];
+  gameHistory: GameHistoryEntry[];
 }
 
 export interface GameOptions {
@@ -19,80 +58,228 @@ export interface GameOptions {
   isAuto: boolean;
 }
 
-export interface GameResult {
-  clientSeed: string;
-  serverSeed: string;
-  hashedServerSeed: string;
-  nonce: number;
-  gameResult: number;
-  path: number[];
-  finalMultiplier: number;
-  betAmount: number;
-  winAmount: number;
-  balance: number;
-  timestamp?: number;
-  riskMode: 'low' | 'medium' | 'high';
-  rows: number;
+// 'reconnecting' covers a dropped socket that is retrying with backoff,
+// 'disconnected' is only reached by calling disconnect() and
+// 'outdated' means the server runs another protocol version and the page needs a refresh
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'outdated';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // Reconnection attempts since the socket dropped
+  attempt: number;
+}
+
+// A play the server refused, e.g. INSUFFICIENT_BALANCE
+export class PlayError extends Error {
+  constructor(public code: ErrorCode, message: string, public field?: string) {
+    super(message);
+    this.name = 'PlayError';
+  }
+}
+
+// Events PlinkoService passes on to its listeners
+export interface PlinkoServiceEvents {
+  'connection:state': ConnectionStatus;
+  'disconnect': { reason: string };
+  'auth:success': AuthSuccess;
+  'auth:error': ErrorPayload;
+  'game:init': GameState;
+  'game:missed-results': MissedResult[];
+  'game:result': GameResult;
+  'game:batch-result': BatchResult;
+  'game:error': ErrorPayload;
+  'game:new-seed': NewSeed;
+  'game:reveal-seed': RevealedSeed;
+  'autobet:started': AutobetStatus;
+  'autobet:progress': AutobetStatus;
+  'autobet:stopped': AutobetStatus;
+  'ledger:history': { entries: LedgerEntry[] };
 }
 
-export const MULTIPLIERS = {
-  low: [1.5, 1.2, 1.1, 1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.6, 0.7, 0.8, 0.9, 1, 1.1, 1.2, 1.5],
-  medium: [5, 3, 2, 1.5, 1, 0.5, 0.3, 0.2, 0.1, 0.2, 0.3, 0.5, 1, 1.5, 2, 3, 5],
-  high: [110, 41, 10, 5, 3, 2, 1.5, 0.5, 0.3, 0.5, 1.5, 2, 3, 5, 10, 41, 110]
-};
+type Listener<E extends keyof PlinkoServiceEvents> = (data: PlinkoServiceEvents[E]) => void;
+
+type PlinkoSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// The tables the server settles games with, a board with n rows has n + 1 buckets
+// and the bucket index is the number of right bounces
+export { MULTIPLIERS } from '../../shared/fairness';
+// Most bets a single playBatch may settle
+export { MAX_BATCH_SIZE } from '../../shared/validation';
+
+// Reconnection backoff: the delay doubles from the first value up to the cap,
+// with up to half of it randomised so a restarted server isn't hit all at once
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 30000;
+const RECONNECT_JITTER = 0.5;
+
+// A play without an answer in time is sent again with the same bet id, the server
+// returns the original result if the first attempt did settle
+const PLAY_ACK_TIMEOUT_MS = 10000;
+const PLAY_ATTEMPTS = 3;
+
+// Session tokens are kept per tab and per wallet, closing the tab signs out
+const sessionKey = (wallet: string) => `plinko:session:${wallet}`;
 
 export class PlinkoService {
-  private socket: Socket | null = null;
+  private socket: PlinkoSocket | null = null;
   private serverUrl: string;
-  private listeners: Map<string, ((data: any) => void)[]> = new Map();
+  private listeners: Map<keyof PlinkoServiceEvents, ((data: never) => void)[]> = new Map();
+  private status: ConnectionStatus = { state: 'disconnected', attempt: 0 };
+  // Newest game this client has seen, a resume replays everything settled after it
+  private lastGameId?: string;
   
   constructor(serverUrl: string = 'http://localhost:3333') {
     this.serverUrl = serverUrl;
   }
   
-  // Connect to the server
-  connect(): Promise<GameState> {
+  get connectionStatus(): ConnectionStatus {
+    return this.status;
+  }
+  
+  // Connect and sign in with the given wallet: the server sends a challenge message,
+  // the wallet signs it and the server binds the socket to the wallet's account.
+  // Resolves on the first game:init; after that a dropped socket reconnects with
+  // backoff and resumes the session, and every new game:init is sent to listeners.
+  connect(wallet: string, signMessage: (message: string) => Promise<string | undefined>): Promise<GameState> {
     return new Promise((resolve, reject) => {
       try {
-        console.log('Attempting to connect to Plinko server at:', this.serverUrl);
-        this.socket = io(this.serverUrl);
+        this.lastGameId = undefined;
+        this.setStatus('connecting');
+        this.socket = io(this.serverUrl, {
+          auth: { protocolVersion: PROTOCOL_VERSION },
+          reconnectionDelay: RECONNECT_DELAY_MS,
+          reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+          randomizationFactor: RECONNECT_JITTER
+        });
+        
+        // Resume the stored session when there is one, otherwise ask for a challenge to sign
+        const signIn = () => {
+          const sessionToken = sessionStorage.getItem(sessionKey(wallet));
+          
+          if (sessionToken) {
+            this.socket?.emit('auth:resume', { sessionToken, lastGameId: this.lastGameId });
+          } else {
+            this.socket?.emit('auth:request-challenge', { wallet });
+          }
+        };
         
         // Set up event listeners
         this.socket.on('connect', () => {
-          console.log('Connected to Plinko server, socket ID:', this.socket?.id);
+          signIn();
+        });
+        
+        this.socket.on('auth:challenge', async (data) => {
+          try {
+            const signature = await signMessage(data.message);
+            
+            if (!signature) {
+              throw new Error('Wallet did not return a signature');
+            }
+            
+            this.socket?.emit('auth:login', { signature });
+          } catch (error) {
+            console.error('Failed to sign the login challenge:', error);
+            reject(error);
+          }
+        });
+        
+        this.socket.on('auth:success', (data) => {
+          sessionStorage.setItem(sessionKey(wallet), data.sessionToken);
+          this.notifyListeners('auth:success', data);
+        });
+        
+        this.socket.on('auth:error', (data) => {
+          // An expired session falls back to signing a new challenge
+          if (data.code === 'INVALID_SESSION') {
+            sessionStorage.removeItem(sessionKey(wallet));
+            signIn();
+            return;
+          }
+          
+          console.error('Sign-in rejected by Plinko server:', data);
+          reject(new Error(data.message));
+          this.notifyListeners('auth:error', data);
         });
         
-        this.socket.on('disconnect', () => {
-          console.log('Disconnected from Plinko server');
-          this.notifyListeners('disconnect', {});
+        this.socket.on('disconnect', (reason) => {
+          // socket.io retries on its own unless the server closed the socket
+          if (reason === 'io server disconnect') {
+            this.socket?.connect();
+          }
+          
+          if (reason !== 'io client disconnect') {
+            this.setStatus('reconnecting');
+          }
+          
+          this.notifyListeners('disconnect', { reason });
         });
         
         this.socket.on('connect_error', (error) => {
           console.error('Connection error to Plinko server:', error);
-          reject(error);
+          
+          // Refused by the handshake, retrying can't help until the page is reloaded
+          const mismatch = (error as Error & { data?: ProtocolMismatch }).data;
+          
+          if (mismatch?.code === 'PROTOCOL_MISMATCH') {
+            this.setStatus('outdated');
+            reject(new Error(mismatch.message));
+            return;
+          }
+          
+          if (this.status.state === 'connecting') {
+            this.setStatus('reconnecting');
+          }
+        });
+        
+        this.socket.io.on('reconnect_attempt', (attempt) => {
+          this.setStatus('reconnecting', attempt);
         });
         
-        // Handle game initialization
+        // Handle game initialization, sent after every sign-in
         this.socket.on('game:init', (data) => {
-          console.log('Game initialized with data:', data);
           const gameState: GameState = {
             clientSeed: data.clientSeed,
             hashedServerSeed: data.hashedServerSeed,
+            seedChain: data.seedChain,
+            nonce: data.nonce,
             balance: data.balance,
+            currency: data.currency || DEFAULT_CURRENCY,
             isPlaying: false,
-            gameHistory: []
+            gameHistory: data.history || []
           };
           
+          this.seeGames(gameState.gameHistory);
+          this.setStatus('connected');
           resolve(gameState);
           this.notifyListeners('game:init', gameState);
         });
         
+        // Games settled while the socket was away, sent after game:init on a resume
+        this.socket.on('game:missed-results', (data: { results: MissedResult[] }) => {
+          this.seeGames(data.results);
+          this.notifyListeners('game:missed-results', data.results);
+        });
+        
         // Handle game results
         this.socket.on('game:result', (data) => {
-          console.log('Game result received:', data);
+          this.seeGames([data]);
           this.notifyListeners('game:result', data);
         });
         
+        // Results of a game:play-batch, settled by the server in nonce order
+        this.socket.on('game:batch-result', (data) => {
+          this.seeGames(data.results || []);
+          this.notifyListeners('game:batch-result', data);
+        });
+        
+        // Autobet runs on the server, every tab of the wallet gets its progress
+        (['autobet:started', 'autobet:progress', 'autobet:stopped'] as const).forEach(event => {
+          this.socket?.on(event, (data: AutobetStatus) => {
+            this.seeGames(data.result ? [data.result] : []);
+            this.notifyListeners(event, data);
+          });
+        });
+        
         // Handle errors
         this.socket.on('game:error', (data) => {
           console.error('Game error from server:', data);
@@ -101,14 +288,16 @@ export class PlinkoService {
         
         // Handle seed changes
         this.socket.on('game:new-seed', (data) => {
-          console.log('New seed received:', data);
           this.notifyListeners('game:new-seed', data);
         });
         
         this.socket.on('game:reveal-seed', (data) => {
-          console.log('Revealed seed received:', data);
           this.notifyListeners('game:reveal-seed', data);
         });
+        
+        this.socket.on('ledger:history', (data) => {
+          this.notifyListeners('ledger:history', data);
+        });
       } catch (error) {
         console.error('Exception during socket connection:', error);
         reject(error);
@@ -122,46 +311,152 @@ export class PlinkoService {
       this.socket.disconnect();
       this.socket = null;
     }
+    
+    this.setStatus('disconnected');
   }
   
-  // Play a game
-  play(options: GameOptions): void {
-    if (!this.socket) {
-      console.error('Not connected to server, cannot play');
+  // The signed-in socket. Events emitted while reconnecting would be buffered
+  // and reach the server ahead of the sign-in, so they are refused instead
+  private ensureConnected(): PlinkoSocket {
+    if (!this.socket || this.status.state !== 'connected') {
       throw new Error('Not connected to the Plinko server');
     }
     
-    console.log('Emitting game:play event with options:', options);
-    this.socket.emit('game:play', options);
+    return this.socket;
+  }
+  
+  private setStatus(state: ConnectionState, attempt = 0): void {
+    this.status = { state, attempt };
+    this.notifyListeners('connection:state', this.status);
+  }
+  
+  // Remember the newest game received, for the next resume
+  private seeGames(games: { gameId?: string }[]): void {
+    const last = games[games.length - 1];
+    
+    if (last?.gameId) {
+      this.lastGameId = last.gameId;
+    }
+  }
+  
+  // Resolves once the socket is signed in again, rejects if it is closed instead
+  private whenConnected(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const check = (status: ConnectionStatus) => {
+        if (status.state === 'connected') {
+          this.off('connection:state', check);
+          resolve();
+        } else if (status.state === 'disconnected') {
+          this.off('connection:state', check);
+          reject(new Error('Disconnected from the Plinko server'));
+        }
+      };
+      
+      this.on('connection:state', check);
+      check(this.status);
+    });
+  }
+  
+  // Send a play and wait for its acknowledgement. Timeouts and dropped connections
+  // are retried with the same bet id, so the bet is placed at most once.
+  private async sendPlay<T>(betId: string, send: (socket: PlinkoSocket) => Promise<PlayAck<T>>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const socket = this.ensureConnected();
+      let response: PlayAck<T>;
+      
+      try {
+        response = await send(socket);
+      } catch (error) {
+        if (attempt >= PLAY_ATTEMPTS) {
+          throw error;
+        }
+        
+        console.warn(`No answer to bet ${betId}, retrying`);
+        await this.whenConnected();
+        continue;
+      }
+      
+      if (!response.ok) {
+        throw new PlayError(response.error.code, response.error.message, response.error.field);
+      }
+      
+      return response.result;
+    }
+  }
+  
+  // Play a game, resolves with its settled result. Every play carries a fresh
+  // bet id so the result can be matched to the click that placed it
+  async play(options: GameOptions): Promise<GameResult> {
+    const { betAmount, riskMode, rows } = options;
+    const payload = { betId: crypto.randomUUID(), betAmount, riskMode, rows };
+    
+    const result = await this.sendPlay<GameResult>(payload.betId, socket =>
+      socket.timeout(PLAY_ACK_TIMEOUT_MS).emitWithAck('game:play', payload)
+    );
+    
+    this.seeGames([result]);
+    this.notifyListeners('game:result', result);
+    return result;
+  }
+  
+  // Play `count` games in one request, the server settles them all before answering
+  async playBatch(options: GameOptions, count: number): Promise<BatchResult> {
+    const { betAmount, riskMode, rows } = options;
+    const payload = { betId: crypto.randomUUID(), betAmount, riskMode, rows, count };
+    const batch = await this.sendPlay<BatchResult>(payload.betId, socket =>
+      socket.timeout(PLAY_ACK_TIMEOUT_MS).emitWithAck('game:play-batch', payload)
+    );
+    
+    this.seeGames(batch.results);
+    this.notifyListeners('game:batch-result', batch);
+    return batch;
+  }
+  
+  // Start an autobet run on the server
+  startAutobet(settings: AutobetSettings): void {
+    const socket = this.ensureConnected();
+    
+    socket.emit('autobet:start', settings);
+  }
+  
+  // Cancel the running autobet, bets already placed stay settled
+  stopAutobet(): void {
+    const socket = this.ensureConnected();
+    
+    socket.emit('autobet:stop');
   }
   
   // Request a new server seed
   requestNewServerSeed(): void {
-    if (!this.socket) {
-      throw new Error('Not connected to the Plinko server');
-    }
+    const socket = this.ensureConnected();
     
-    this.socket.emit('game:new-server-seed');
+    socket.emit('game:new-server-seed');
   }
   
   // Update the client seed
   updateClientSeed(clientSeed: string): void {
-    if (!this.socket) {
-      throw new Error('Not connected to the Plinko server');
-    }
+    const socket = this.ensureConnected();
+    
+    socket.emit('game:new-client-seed', { clientSeed });
+  }
+  
+  // Request ledger entries, answered with a ledger:history event. Pass the
+  // smallest sequence received as `before` to load older entries
+  requestLedgerHistory(options: { limit?: number; before?: number } = {}): void {
+    const socket = this.ensureConnected();
     
-    this.socket.emit('game:new-client-seed', { clientSeed });
+    socket.emit('ledger:history', options);
   }
   
   // Add an event listener
-  on(event: string, callback: (data: any) => void): void {
+  on<E extends keyof PlinkoServiceEvents>(event: E, callback: Listener<E>): void {
     const callbacks = this.listeners.get(event) || [];
     callbacks.push(callback);
     this.listeners.set(event, callbacks);
   }
   
   // Remove an event listener
-  off(event: string, callback: (data: any) => void): void {
+  off<E extends keyof PlinkoServiceEvents>(event: E, callback: Listener<E>): void {
     const callbacks = this.listeners.get(event) || [];
     const index = callbacks.indexOf(callback);
     
@@ -172,25 +467,19 @@ export class PlinkoService {
   }
   
   // Notify all listeners for an event
-  private notifyListeners(event: string, data: any): void {
-    const callbacks = this.listeners.get(event) || [];
+  private notifyListeners<E extends keyof PlinkoServiceEvents>(event: E, data: PlinkoServiceEvents[E]): void {
+    const callbacks = (this.listeners.get(event) || []) as Listener<E>[];
     callbacks.forEach(callback => callback(data));
   }
   
-  // Verify a game result (client-side verification)
-  async verifyGameResult(result: GameResult): Promise<boolean> {
+  // Recompute a game in the browser from its revealed server seed, the server
+  // is not involved so a player never has to trust it to check itself
+  async verifyGameResult(result: GameResult, serverSeed: string): Promise<boolean> {
     try {
-      const response = await fetch(`${this.serverUrl}/api/verify?serverSeed=${result.serverSeed}&clientSeed=${result.clientSeed}&nonce=${result.nonce}&riskMode=${result.riskMode}&rows=${result.rows}&result=${encodeURIComponent(JSON.stringify(result))}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to verify game result');
-      }
-      
-      const data = await response.json();
-      return data.verified;
+      return await verifyGameResult(serverSeed, result.clientSeed, result.nonce, result, { ...result, serverSeed });
     } catch (error) {
       console.error('Error verifying game result:', error);
       return false;
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import { PlinkoApi } from './apiClient';
+import { Receipt, ReceiptFields } from '../../shared/fairness';
+import { verifyAuditProof, verifyReceipt } from '../../shared/fairness/webcrypto';
+
+let publicKey: Promise<string> | null = null;
+
+// The key only changes when the server's signing key is replaced, fetch it once per page
+function receiptPublicKey(): Promise<string> {
+  if (!publicKey) {
+    publicKey = PlinkoApi.getReceiptPublicKey().then(data => data.publicKey);
+    publicKey.catch(() => {
+      publicKey = null;
+    });
+  }
+  
+  return publicKey;
+}
+
+// Check a result's receipt against the server's published key, false when it
+// doesn't match or can't be checked
+export async function checkReceipt(fields: ReceiptFields, receipt: Receipt): Promise<boolean> {
+  try {
+    return await verifyReceipt(fields, receipt, await receiptPublicKey());
+  } catch (error) {
+    console.error('Receipt verification failed:', error);
+    return false;
+  }
+}
+
+// Whether the bet is in the latest published audit root: 'pending' until a root covers
+// it, 'invalid' when the server's proof doesn't check out
+export async function checkAuditInclusion(fields: ReceiptFields): Promise<'included' | 'pending' | 'invalid'> {
+  try {
+    const proof = await PlinkoApi.getAuditProof(fields.gameId);
+    
+    if (!proof) {
+      return 'pending';
+    }
+    
+    return (await verifyAuditProof(proof, fields)) ? 'included' : 'invalid';
+  } catch (error) {
+    console.error('Audit proof verification failed:', error);
+    return 'invalid';
+  }
+}
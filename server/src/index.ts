@@ -2,36 +2,405 @@ import express from 'express';
 import http from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
+import crypto from 'crypto';
 import { 
-  generateServerSeed, 
+  calculateBucket,
   generateClientSeed, 
   hashServerSeed, 
   calculateGameResult, 
   verifyGameResult,
+  checkKnownAnswers,
   GameOptions
 } from './utils/provableFairness';
+import { buildPlinkoConfig } from './utils/plinkoConfig';
+import { validateMultiplierTables, RTP_BAND } from './utils/rtp';
+import { createPlayerStore, PlayerAccount } from './storage/playerStore';
+import { createLedger, HOUSE_ACCOUNT, LedgerGameRef } from './storage/ledger';
+import { createSeedHistoryStore } from './storage/seedHistory';
+import { createAuditLog } from './storage/auditLog';
+import { createDemoGameStore } from './storage/demoGames';
+import { createSeedChainStore } from './storage/seedChains';
+import { checkBetLimits, getBetLimits, HOUSE_BANKROLL } from './utils/limits';
+import { createSeedChainDealer, loadSeedChainSecret } from './utils/seedChain';
+import { advanceAutobet, AutobetSettings, AutobetState, AutobetStopReason, createAutobetState } from './utils/autobet';
+import { createChallenge, verifyChallengeSignature, AuthChallenge } from './utils/solanaAuth';
+import { createSession, isSessionExpired, renewSession, Session } from './utils/sessions';
+import { IdempotencyCache } from './utils/idempotency';
+import { createDemoGame, RestReply } from './utils/demoGame';
+import {
+  BatchResult,
+  BetDetails,
+  ClientToServerEvents,
+  ErrorPayload,
+  GameResult,
+  HandshakeAuth,
+  MissedResult,
+  PlayAck,
+  PlayRequest,
+  PROTOCOL_VERSION,
+  ProtocolMismatch,
+  SeedHistoryPage,
+  ServerToClientEvents
+} from '../../shared/protocol';
+import { calculatePayout, toBaseUnits, CURRENCY } from './utils/units';
+import { RECEIPT_PUBLIC_KEY, signReceipt } from './utils/receipts';
+import {
+  parse,
+  authChallengeSchema,
+  authLoginSchema,
+  authResumeSchema,
+  newClientSeedSchema,
+  playSchema,
+  playBatchSchema,
+  autobetStartSchema,
+  seedChainQuerySchema,
+  seedHistoryQuerySchema,
+  ledgerHistorySchema,
+  configQuerySchema,
+  betLookupSchema,
+  auditProofSchema,
+  legacyVerifyQuerySchema,
+  REQUEST_ID_PATTERN
+} from '../../shared/validation';
+
+// Refuse to start with multiplier tables that don't honour the advertised house edge
+const tableOdds = validateMultiplierTables();
+console.log(`Multiplier tables within RTP band ${RTP_BAND.min}-${RTP_BAND.max}:`,
+  tableOdds.map(table => `${table.rows}/${table.riskMode} ${(table.rtp * 100).toFixed(2)}%`).join(', '));
+
+// Refuse to start if the fairness engine disagrees with its published known answers
+const knownAnswerMismatches = checkKnownAnswers();
+
+if (knownAnswerMismatches.length > 0) {
+  throw new Error(`Fairness engine failed its known-answer vectors:\n${knownAnswerMismatches.join('\n')}`);
+}
 
 const app = express();
 const server = http.createServer(app);
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST']
   }
 });
 
-// Store user state
-interface UserState {
-  serverSeed: string;
-  clientSeed: string;
-  nonce: number;
-  balance: number;
+// Player accounts keyed by wallet, persisted across reconnects and restarts
+const playerStore = createPlayerStore();
+// Balances are integers in the currency's base units, STARTING_BALANCE is given in whole tokens
+const STARTING_BALANCE = toBaseUnits(process.env.STARTING_BALANCE || '1000');
+
+// Append-only record of every balance change, balances are derived by replaying it
+const ledger = createLedger();
+
+// Every retired seed pair per player, so past bets stay verifiable after the reveal
+const seedHistory = createSeedHistoryStore();
+
+// Every player draws server seeds from a hash chain of their own, committed to in batches
+const seedChains = createSeedChainDealer(createSeedChainStore(), loadSeedChainSecret());
+const seedChainBatch = seedChains.current();
+console.log(`Seed chains handed out from root ${seedChainBatch.root}, ` +
+  `${seedChainBatch.assigned} of ${seedChainBatch.count} assigned`);
+
+// Hash chain of every settled bet, with a Merkle root over it published every interval
+const auditLog = createAuditLog();
+const AUDIT_ROOT_INTERVAL_MS = parseInt(process.env.AUDIT_ROOT_INTERVAL_MS || '60000');
+
+setInterval(() => auditLog.checkpoint(), AUDIT_ROOT_INTERVAL_MS);
+
+// Archive the account's current seed pair before it changes. The server seed is
+// only included when it is being rotated, client seed changes keep it secret.
+function retireSeedPair(account: PlayerAccount, revealServerSeed: boolean) {
+  const hashedServerSeed = hashServerSeed(account.serverSeed);
+  
+  seedHistory.retire({
+    wallet: account.wallet,
+    hashedServerSeed,
+    serverSeed: revealServerSeed ? account.serverSeed : undefined,
+    seedChain: account.seedChain,
+    clientSeed: account.clientSeed,
+    nonceRange: account.nonce > 0 ? { first: 0, last: account.nonce - 1 } : undefined,
+    betCount: account.nonce
+  });
+  
+  if (revealServerSeed) {
+    seedHistory.reveal(account.wallet, hashedServerSeed, account.serverSeed);
+  }
+}
+
+// House funds backing new bets: the starting bankroll plus the house's net result
+function houseFunds(): number {
+  return HOUSE_BANKROLL + ledger.accountBalance(HOUSE_ACCOUNT);
+}
+
+function createAccount(wallet: string): PlayerAccount {
+  const now = Date.now();
+  const { serverSeed, seedChain } = seedChains.assign(wallet);
+  
+  return {
+    wallet,
+    serverSeed,
+    seedChain,
+    clientSeed: generateClientSeed(),
+    nonce: 0,
+    balance: STARTING_BALANCE,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function getOrCreateAccount(wallet: string): PlayerAccount {
+  let account = playerStore.get(wallet);
+  
+  // New players are credited the starting balance
+  if (!account) {
+    account = createAccount(wallet);
+    
+    if (account.balance > 0) {
+      ledger.append([{ wallet, type: 'deposit', amount: account.balance }]);
+    }
+  }
+  
+  // The stored balance is only a cache of the ledger
+  account.balance = ledger.balanceOf(wallet);
+  
+  playerStore.save(account);
+  return account;
+}
+
+// A play with the schema defaults filled in
+type SettledPlay = Required<Pick<PlayRequest, 'betAmount' | 'riskMode' | 'rows'>>;
+
+// Why a player may not place `count` bets, or null when they may. A batch must be
+// covered in full up front, by the balance and by the bankroll guard, so its outcomes
+// can never decide whether it runs.
+function checkPlay(account: PlayerAccount, play: SettledPlay, count: number): ErrorPayload | null {
+  if (play.betAmount * count > ledger.balanceOf(account.wallet)) {
+    return { code: 'INSUFFICIENT_BALANCE', message: 'Insufficient balance', field: 'betAmount' };
+  }
+  
+  return checkBetLimits(play.betAmount, play.riskMode, play.rows, houseFunds(), count);
+}
+
+// Settle `count` bets in order on consecutive nonces. Every bet and payout entry
+// is appended to the ledger in one write, so a batch settles completely or not at all.
+function settleGames(account: PlayerAccount, play: SettledPlay, count: number): GameResult[] {
+  const { betAmount, riskMode, rows } = play;
+  const gameOptions: GameOptions = { rows, riskMode };
+  
+  const games = Array.from({ length: count }, (_, index) => {
+    const result = calculateGameResult(account.serverSeed, account.clientSeed, account.nonce + index, gameOptions);
+    
+    // All amounts are integer base units
+    const winAmount = calculatePayout(betAmount, result.finalMultiplier);
+    const game: LedgerGameRef = {
+      gameId: crypto.randomUUID(),
+      serverSeedHash: result.hashedServerSeed,
+      clientSeed: result.clientSeed,
+      nonce: result.nonce,
+      riskMode,
+      rows,
+      multiplier: result.finalMultiplier,
+      path: result.path,
+      rngVersion: result.rngVersion
+    };
+    
+    return { result, winAmount, game };
+  });
+  
+  const entries = ledger.append(games.flatMap(({ winAmount, game }) => [
+    { wallet: account.wallet, type: 'bet' as const, amount: betAmount, game },
+    { wallet: account.wallet, type: 'payout' as const, amount: winAmount, game }
+  ]));
+  
+  account.balance = ledger.balanceOf(account.wallet);
+  account.nonce += count;
+  
+  playerStore.save(account);
+  
+  const results = games.map(({ result, winAmount, game }, index) => {
+    const payout = entries[index * 2 + 1];
+    // The server seed is still in use, it is only revealed when the player rotates it
+    const { clientSeed, hashedServerSeed, nonce, gameResult, path, finalMultiplier, rngVersion } = result;
+    const settled = {
+      clientSeed,
+      hashedServerSeed,
+      nonce,
+      gameResult,
+      path,
+      finalMultiplier,
+      rngVersion,
+      gameId: game.gameId,
+      wallet: account.wallet,
+      riskMode,
+      rows,
+      betAmount,
+      winAmount,
+      balance: payout.balance,
+      timestamp: payout.timestamp
+    };
+    
+    return { ...settled, receipt: signReceipt(settled) };
+  });
+  
+  auditLog.append(results);
+  
+  return results;
+}
+
+// Answers of recent plays by client bet id, so a retried play isn't settled twice
+const playResults = new IdempotencyCache<GameResult>();
+const batchResults = new IdempotencyCache<BatchResult>();
+
+// Games of the wallet settled after `lastGameId`, e.g. by an autobet run while the
+// player's socket was away. Signed like the results sent at settlement. Nothing is
+// replayed for an id the ledger doesn't know, game:init already sends the history.
+function missedResults(wallet: string, lastGameId: string): MissedResult[] {
+  return ledger.gamesSince(wallet, lastGameId).map(record => ({
+    ...record,
+    gameResult: calculateBucket(record.path),
+    receipt: signReceipt(record)
+  }));
+}
+
+// Sign-in sessions keyed by token, kept in memory so a restart asks every player to sign again
+const sessions = new Map<string, Session>();
+
+function startSession(wallet: string): Session {
+  sessions.forEach((session, token) => {
+    if (isSessionExpired(session)) {
+      sessions.delete(token);
+    }
+  });
+  
+  const session = createSession(wallet);
+  sessions.set(session.token, session);
+  
+  return session;
+}
+
+// Every tab of the same wallet joins one room so account events reach all of them
+function walletRoom(wallet: string): string {
+  return `wallet:${wallet}`;
+}
+
+// Autobet runs keyed by wallet. They live on the server, so closing the browser
+// doesn't stop a run, and every bet is fully settled before the next is placed.
+const AUTOBET_INTERVAL_MS = 300;
+
+interface AutobetRun {
+  state: AutobetState;
+  timer: NodeJS.Timeout | null;
+}
+
+const autobets = new Map<string, AutobetRun>();
+
+function autobetSummary(state: AutobetState) {
+  return {
+    settings: state.settings,
+    betsPlayed: state.betsPlayed,
+    profit: state.profit,
+    currentBet: state.currentBet
+  };
+}
+
+function stopAutobet(wallet: string, reason: AutobetStopReason, error?: ErrorPayload) {
+  const run = autobets.get(wallet);
+  
+  if (!run) {
+    return;
+  }
+  
+  if (run.timer) {
+    clearTimeout(run.timer);
+  }
+  
+  autobets.delete(wallet);
+  io.to(walletRoom(wallet)).emit('autobet:stopped', { ...autobetSummary(run.state), reason, error });
+}
+
+function runAutobetStep(wallet: string) {
+  const run = autobets.get(wallet);
+  const account = playerStore.get(wallet);
+  
+  if (!run || !account) {
+    return;
+  }
+  
+  run.timer = null;
+  
+  const { riskMode, rows } = run.state.settings;
+  const play: SettledPlay = { betAmount: run.state.currentBet, riskMode, rows };
+  const playError = checkPlay(account, play, 1);
+  
+  if (playError) {
+    stopAutobet(wallet, 'error', playError);
+    return;
+  }
+  
+  const [result] = settleGames(account, play, 1);
+  const reason = advanceAutobet(run.state, result);
+  
+  io.to(walletRoom(wallet)).emit('autobet:progress', { ...autobetSummary(run.state), result });
+  
+  if (reason) {
+    stopAutobet(wallet, reason);
+  } else {
+    run.timer = setTimeout(() => runAutobetStep(wallet), AUTOBET_INTERVAL_MS);
+  }
+}
+
+function startAutobet(wallet: string, settings: AutobetSettings) {
+  const run: AutobetRun = { state: createAutobetState(settings), timer: null };
+  autobets.set(wallet, run);
+  
+  io.to(walletRoom(wallet)).emit('autobet:started', autobetSummary(run.state));
+  runAutobetStep(wallet);
 }
 
-const userStates = new Map<string, UserState>();
+// Free REST games, played on a shared seed without an account, see utils/demoGame.ts
+const demoGame = createDemoGame(createDemoGameStore());
+
+function findBet(gameId: string): BetDetails | undefined {
+  const record = ledger.game(gameId);
+  
+  if (record) {
+    return {
+      gameId,
+      wallet: record.wallet,
+      betAmount: record.betAmount,
+      winAmount: record.winAmount,
+      currency: CURRENCY,
+      riskMode: record.riskMode,
+      rows: record.rows,
+      finalMultiplier: record.finalMultiplier,
+      gameResult: calculateBucket(record.path),
+      path: record.path,
+      nonce: record.nonce,
+      clientSeed: record.clientSeed,
+      hashedServerSeed: record.hashedServerSeed,
+      serverSeed: seedHistory.revealedSeed(record.wallet, record.hashedServerSeed),
+      rngVersion: record.rngVersion,
+      timestamp: record.timestamp,
+      receipt: signReceipt(record)
+    };
+  }
+  
+  return demoGame.bet(gameId);
+}
 
 // Middleware
-app.use(cors());
+
+// Every request is tagged with the X-Request-Id the Next API routes forward, or a new
+// one, so a failed call can be traced from the route's log to the server's
+app.use((req, res, next) => {
+  const incomingId = req.get('X-Request-Id');
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+  
+  res.set('X-Request-Id', requestId);
+  next();
+});
+
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
 app.use(express.json());
 
 // API routes
@@ -39,27 +408,28 @@ app.get('/api/health', (req, res) => {
   res.status(200).json({ status: 'ok', message: 'Plinko server is running' });
 });
 
+// Reply with a structured validation error
+function sendError(res: express.Response, status: number, error: ErrorPayload) {
+  return res.status(status).json({ status: 'error', ...error });
+}
+
+function sendReply(res: express.Response, answer: RestReply) {
+  return res.status(answer.status).json(answer.body);
+}
+
 // Provable fairness API
 app.get('/api/verify', (req, res) => {
-  const { serverSeed, clientSeed, nonce, riskMode, rows, result } = req.query;
+  const parsed = parse(legacyVerifyQuerySchema, req.query);
   
-  if (!serverSeed || !clientSeed || !nonce || !riskMode || !rows || !result) {
-    return res.status(400).json({ status: 'error', message: 'Missing parameters' });
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
   }
   
+  const { serverSeed, clientSeed, nonce, riskMode, rows, rngVersion, result } = parsed.value;
+  
   try {
-    const options: GameOptions = {
-      rows: parseInt(rows as string),
-      riskMode: riskMode as 'low' | 'medium' | 'high'
-    };
-    
-    const verified = verifyGameResult(
-      serverSeed as string,
-      clientSeed as string,
-      parseInt(nonce as string),
-      options,
-      JSON.parse(result as string)
-    );
+    const options: GameOptions = { rows, riskMode, rngVersion };
+    const verified = verifyGameResult(serverSeed, clientSeed, nonce, options, result);
     
     res.status(200).json({ status: 'ok', verified });
   } catch (error) {
@@ -67,120 +437,473 @@ app.get('/api/verify', (req, res) => {
   }
 });
 
+// Plinko REST API, consumed by the Next.js routes in app/api/plinko
+app.get('/api/plinko/config', (req, res) => {
+  const parsed = parse(configQuerySchema, req.query);
+  
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
+  }
+  
+  const { risk, rows } = parsed.value;
+  res.status(200).json(buildPlinkoConfig(risk, rows, getBetLimits(risk, rows, houseFunds())));
+});
+
+app.get('/api/plinko/seed', (req, res) => {
+  sendReply(res, demoGame.seed());
+});
+
+// Reveal the demo seed and start a new one, it also rotates every DEMO_SEED_ROTATION games
+app.post('/api/plinko/seed/rotate', (req, res) => {
+  sendReply(res, demoGame.rotateSeed());
+});
+
+// Root of the batch new seed chains are handed out from, or with a wallet that player's
+// chain and the position of their current server seed
+app.get('/api/plinko/seeds/chain', (req, res) => {
+  const parsed = parse(seedChainQuerySchema, req.query);
+  
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
+  }
+  
+  if (!parsed.value.wallet) {
+    return res.status(200).json(seedChains.current());
+  }
+  
+  const account = playerStore.get(parsed.value.wallet);
+  
+  if (!account) {
+    return sendError(res, 404, { code: 'ACCOUNT_NOT_FOUND', message: 'No seed chain for this wallet', field: 'wallet' });
+  }
+  
+  // With the proof that the chain's anchor is in the published root of its batch
+  res.status(200).json({
+    wallet: account.wallet,
+    ...account.seedChain,
+    hashedServerSeed: hashServerSeed(account.serverSeed),
+    proof: seedChains.proof(account.seedChain)?.proof
+  });
+});
+
+// Retired seed pairs of a player, newest first
+app.get('/api/plinko/seeds/history', (req, res) => {
+  const parsed = parse(seedHistoryQuerySchema, req.query);
+  
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
+  }
+  
+  const { wallet, page, pageSize } = parsed.value;
+  const history: SeedHistoryPage = { wallet, page, pageSize, ...seedHistory.list(wallet, page, pageSize) };
+  
+  res.status(200).json(history);
+});
+
+// Public half of the key that signs bet receipts
+app.get('/api/plinko/receipts/public-key', (req, res) => {
+  res.status(200).json({ algorithm: 'ed25519', encoding: 'base64', publicKey: RECEIPT_PUBLIC_KEY });
+});
+
+// Latest published Merkle root of the audit log
+app.get('/api/plinko/audit/root', (req, res) => {
+  res.status(200).json(auditLog.latestRoot() || auditLog.checkpoint());
+});
+
+// Proof that a bet is included in a published root
+app.get('/api/plinko/audit/proof', (req, res) => {
+  const parsed = parse(auditProofSchema, req.query);
+  
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
+  }
+  
+  const { gameId, size } = parsed.value;
+  const proof = auditLog.proof(gameId, size);
+  
+  if (proof) {
+    return res.status(200).json(proof);
+  }
+  
+  if (!auditLog.find(gameId)) {
+    return sendError(res, 404, { code: 'GAME_NOT_FOUND', message: 'Game not found', field: 'gameId' });
+  }
+  
+  sendError(res, 409, { code: 'AUDIT_PENDING', message: 'The bet is not covered by that root yet', field: 'size' });
+});
+
+// Any settled bet by its game id, for shareable permalinks and support audits
+app.get('/api/plinko/bets/:gameId', (req, res) => {
+  const parsed = parse(betLookupSchema, req.params);
+  
+  if (!parsed.ok) {
+    return sendError(res, 400, parsed.error);
+  }
+  
+  const bet = findBet(parsed.value.gameId);
+  
+  if (!bet) {
+    return sendError(res, 404, { code: 'GAME_NOT_FOUND', message: 'Game not found', field: 'gameId' });
+  }
+  
+  res.status(200).json(bet);
+});
+
+// A free demo drop, nothing is debited or paid out
+app.post('/api/plinko/path', (req, res) => {
+  sendReply(res, demoGame.play(req.body));
+});
+
+app.post('/api/plinko/verify', (req, res) => {
+  try {
+    sendReply(res, demoGame.verify(req.body));
+  } catch (error) {
+    res.status(500).json({ status: 'error', message: 'Verification failed', error: String(error) });
+  }
+});
+
 // Socket events
+// Clients built for another protocol version are refused before they can send anything
+io.use((socket, next) => {
+  const { protocolVersion } = (socket.handshake.auth || {}) as Partial<HandshakeAuth>;
+  
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    const data: ProtocolMismatch = {
+      code: 'PROTOCOL_MISMATCH',
+      message: 'This page is out of date, refresh it to keep playing',
+      serverVersion: PROTOCOL_VERSION
+    };
+    
+    next(Object.assign(new Error(data.message), { data }));
+    return;
+  }
+  
+  next();
+});
+
 io.on('connection', (socket) => {
   console.log(`New client connected: ${socket.id}`);
   
-  // Initialize user state with a server seed and client seed
-  const serverSeed = generateServerSeed();
-  const clientSeed = generateClientSeed();
+  // The socket is bound to a wallet only after it signs a challenge
+  let wallet: string | null = null;
+  let room: string | null = null;
+  let challenge: AuthChallenge | null = null;
   
-  userStates.set(socket.id, {
-    serverSeed,
-    clientSeed,
-    nonce: 0,
-    balance: 1000 // Default starting balance
+  // Sign-in with Solana: issue a single-use message for the wallet to sign
+  socket.on('auth:request-challenge', (data) => {
+    const parsed = parse(authChallengeSchema, data);
+    
+    if (!parsed.ok) {
+      socket.emit('auth:error', parsed.error);
+      return;
+    }
+    
+    challenge = createChallenge(parsed.value.wallet);
+    socket.emit('auth:challenge', { message: challenge.message });
   });
   
-  // Send initial seed data to client
-  socket.emit('game:init', {
-    hashedServerSeed: hashServerSeed(serverSeed),
-    clientSeed,
-    balance: 1000
+  // Verify the signed challenge and bind the socket to the wallet
+  socket.on('auth:login', (data) => {
+    const pending = challenge;
+    challenge = null;
+    
+    const parsed = parse(authLoginSchema, data);
+    
+    if (!parsed.ok) {
+      socket.emit('auth:error', parsed.error);
+      return;
+    }
+    
+    if (!pending || !verifyChallengeSignature(pending, parsed.value.signature)) {
+      socket.emit('auth:error', { code: 'INVALID_SIGNATURE', message: 'Signature verification failed' });
+      return;
+    }
+    
+    signIn(startSession(pending.wallet));
+  });
+  
+  // Sign back in with the session of an earlier login, e.g. after a dropped connection
+  socket.on('auth:resume', (data) => {
+    challenge = null;
+    
+    const parsed = parse(authResumeSchema, data);
+    
+    if (!parsed.ok) {
+      socket.emit('auth:error', parsed.error);
+      return;
+    }
+    
+    const session = sessions.get(parsed.value.sessionToken);
+    
+    if (!session || isSessionExpired(session)) {
+      sessions.delete(parsed.value.sessionToken);
+      socket.emit('auth:error', { code: 'INVALID_SESSION', message: 'Session expired, sign in again' });
+      return;
+    }
+    
+    signIn(renewSession(session), parsed.value.lastGameId);
+  });
+  
+  // Bind the socket to the session's wallet and send it the account
+  const signIn = (session: Session, lastGameId?: string) => {
+    if (room) {
+      socket.leave(room);
+    }
+    
+    wallet = session.wallet;
+    console.log(`Client ${socket.id} signed in as ${wallet}`);
+    
+    // Load the player's account, creating it with fresh seeds on first visit
+    const account = getOrCreateAccount(wallet);
+    
+    room = walletRoom(wallet);
+    socket.join(room);
+    
+    socket.emit('auth:success', { wallet, sessionToken: session.token, expiresAt: session.expiresAt });
+    
+    // Send initial seed data to client
+    socket.emit('game:init', {
+      hashedServerSeed: hashServerSeed(account.serverSeed),
+      seedChain: account.seedChain,
+      clientSeed: account.clientSeed,
+      nonce: account.nonce,
+      balance: account.balance,
+      currency: CURRENCY,
+      history: ledger.games(wallet)
+    });
+    
+    // Replay what settled while a resumed client was offline
+    const missed = lastGameId ? missedResults(wallet, lastGameId) : [];
+    
+    if (missed.length > 0) {
+      socket.emit('game:missed-results', { results: missed });
+    }
+    
+    // Resume showing a run that kept going while the player was away
+    const autobet = autobets.get(wallet);
+    
+    if (autobet) {
+      socket.emit('autobet:started', autobetSummary(autobet.state));
+    }
+  };
+  
+  const emitError = (error: ErrorPayload) => {
+    socket.emit('game:error', error);
+  };
+  
+  // Account of the signed-in wallet, game events are refused before sign-in
+  const getAccount = (fail = emitError): PlayerAccount | undefined => {
+    if (!wallet) {
+      fail({ code: 'NOT_AUTHENTICATED', message: 'Sign in with your wallet to play' });
+      return undefined;
+    }
+    
+    return playerStore.get(wallet);
+  };
+  
+  // Balance history of the signed-in wallet, newest entries first
+  socket.on('ledger:history', (data) => {
+    const parsed = parse(ledgerHistorySchema, data ?? {});
+    
+    if (!parsed.ok) {
+      socket.emit('game:error', parsed.error);
+      return;
+    }
+    
+    const userState = getAccount();
+    
+    if (userState) {
+      socket.emit('ledger:history', {
+        entries: ledger.entries(userState.wallet, parsed.value)
+      });
+    }
   });
   
   // Handle client requesting a new server seed
   socket.on('game:new-server-seed', () => {
-    const userState = userStates.get(socket.id);
+    const userState = getAccount();
     
-    if (userState) {
-      // Reveal the old server seed
-      socket.emit('game:reveal-seed', {
-        serverSeed: userState.serverSeed
+    if (userState && room) {
+      // Reveal the old server seed with its place in the chain
+      io.to(room).emit('game:reveal-seed', {
+        serverSeed: userState.serverSeed,
+        seedChain: userState.seedChain
       });
       
-      // Generate a new server seed
-      const newServerSeed = generateServerSeed();
-      userState.serverSeed = newServerSeed;
+      retireSeedPair(userState, true);
+      
+      // Move to the next seed of the player's chain, its hash is the seed just revealed
+      const { serverSeed, seedChain } = seedChains.advance(userState.wallet, userState.seedChain);
+      userState.serverSeed = serverSeed;
+      userState.seedChain = seedChain;
       userState.nonce = 0;
       
-      userStates.set(socket.id, userState);
+      playerStore.save(userState);
       
       // Send the new hashed server seed
-      socket.emit('game:new-seed', {
-        hashedServerSeed: hashServerSeed(newServerSeed)
+      io.to(room).emit('game:new-seed', {
+        hashedServerSeed: hashServerSeed(serverSeed),
+        seedChain
       });
     }
   });
   
   // Handle client requesting a new client seed
   socket.on('game:new-client-seed', (data) => {
-    const userState = userStates.get(socket.id);
+    const parsed = parse(newClientSeedSchema, data ?? {});
     
-    if (userState) {
+    if (!parsed.ok) {
+      socket.emit('game:error', parsed.error);
+      return;
+    }
+    
+    const userState = getAccount();
+    
+    if (userState && room) {
+      retireSeedPair(userState, false);
+      
       // Update the client seed
-      userState.clientSeed = data.clientSeed || generateClientSeed();
+      userState.clientSeed = parsed.value.clientSeed || generateClientSeed();
       userState.nonce = 0;
       
-      userStates.set(socket.id, userState);
+      playerStore.save(userState);
       
       // Confirm new client seed
-      socket.emit('game:new-seed', {
+      io.to(room).emit('game:new-seed', {
         clientSeed: userState.clientSeed
       });
     }
   });
   
-  // Handle game play request
-  socket.on('game:play', (data) => {
-    const userState = userStates.get(socket.id);
+  // Plays are answered through their acknowledgement when the client sends one,
+  // clients without one get the result event and game:error instead
+  const answer = <T>(emitResult: (result: T) => void, ack?: (response: PlayAck<T>) => void) => ({
+    ok: (result: T) => (ack ? ack({ ok: true, result }) : emitResult(result)),
+    fail: (error: ErrorPayload) => (ack ? ack({ ok: false, error }) : emitError(error))
+  });
+  
+  // Handle game play request, a repeated betId gets the original result back
+  socket.on('game:play', (data, ack?: (response: PlayAck<GameResult>) => void) => {
+    const reply = answer<GameResult>(result => socket.emit('game:result', result), ack);
+    const parsed = parse(playSchema, data);
+    
+    if (!parsed.ok) {
+      reply.fail(parsed.error);
+      return;
+    }
+    
+    const userState = getAccount(reply.fail);
     
     if (!userState) {
-      socket.emit('game:error', { message: 'User state not found' });
       return;
     }
     
-    const { betAmount, riskMode, rows } = data;
+    const { betId, ...play } = parsed.value;
+    const previous = betId && playResults.get(userState.wallet, betId);
     
-    // Validate bet amount and balance
-    if (betAmount <= 0 || betAmount > userState.balance) {
-      socket.emit('game:error', { message: 'Invalid bet amount or insufficient balance' });
+    if (previous) {
+      reply.ok(previous);
       return;
     }
     
-    // Calculate the game result
-    const gameOptions: GameOptions = {
-      rows: rows || 16,
-      riskMode: riskMode || 'medium'
-    };
+    const playError = checkPlay(userState, play, 1);
     
-    const result = calculateGameResult(
-      userState.serverSeed,
-      userState.clientSeed,
-      userState.nonce,
-      gameOptions
-    );
+    if (playError) {
+      reply.fail(playError);
+      return;
+    }
     
-    // Update balance
-    const winAmount = betAmount * result.finalMultiplier;
-    userState.balance = userState.balance - betAmount + winAmount;
-    userState.nonce++;
+    const [settled] = settleGames(userState, play, 1);
+    const result = { ...settled, betId };
     
-    userStates.set(socket.id, userState);
+    if (betId) {
+      playResults.set(userState.wallet, betId, result);
+    }
     
-    // Send result to client
-    socket.emit('game:result', {
-      ...result,
-      betAmount,
-      winAmount,
-      balance: userState.balance
-    });
+    reply.ok(result);
+  });
+  
+  // Auto mode: settle several bets in one go, the client only animates the results
+  socket.on('game:play-batch', (data, ack?: (response: PlayAck<BatchResult>) => void) => {
+    const reply = answer<BatchResult>(batch => socket.emit('game:batch-result', batch), ack);
+    const parsed = parse(playBatchSchema, data);
+    
+    if (!parsed.ok) {
+      reply.fail(parsed.error);
+      return;
+    }
+    
+    const userState = getAccount(reply.fail);
+    
+    if (!userState) {
+      return;
+    }
+    
+    const { betId, count, ...play } = parsed.value;
+    const previous = betId && batchResults.get(userState.wallet, betId);
+    
+    if (previous) {
+      reply.ok(previous);
+      return;
+    }
+    
+    const playError = checkPlay(userState, play, count);
+    
+    if (playError) {
+      reply.fail(playError);
+      return;
+    }
+    
+    const batch = { betId, results: settleGames(userState, play, count), balance: userState.balance };
+    
+    if (betId) {
+      batchResults.set(userState.wallet, betId, batch);
+    }
+    
+    reply.ok(batch);
+  });
+  
+  // Start a server-side autobet run, progress goes to every tab of the wallet
+  socket.on('autobet:start', (data) => {
+    const parsed = parse(autobetStartSchema, data);
+    
+    if (!parsed.ok) {
+      socket.emit('game:error', parsed.error);
+      return;
+    }
+    
+    const userState = getAccount();
+    
+    if (!userState) {
+      return;
+    }
+    
+    if (autobets.has(userState.wallet)) {
+      socket.emit('game:error', { code: 'AUTOBET_RUNNING', message: 'An autobet is already running' });
+      return;
+    }
+    
+    const playError = checkPlay(userState, parsed.value, 1);
+    
+    if (playError) {
+      socket.emit('game:error', playError);
+      return;
+    }
+    
+    startAutobet(userState.wallet, parsed.value);
+  });
+  
+  socket.on('autobet:stop', () => {
+    const userState = getAccount();
+    
+    if (userState) {
+      stopAutobet(userState.wallet, 'cancelled');
+    }
   });
   
-  // Handle disconnect
+  // Handle disconnect, the account stays in the store for the next connection
   socket.on('disconnect', () => {
-    console.log(`Client disconnected: ${socket.id}`);
-    userStates.delete(socket.id);
+    console.log(`Client disconnected: ${socket.id}${wallet ? ` (${wallet})` : ''}`);
   });
 });
 
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { GENESIS_HASH, MemoryAuditLog } from './auditLog';
+import { leafHash, merkleRoot } from '../utils/merkle';
+import { verifyAuditProof } from '../../../shared/fairness/webcrypto';
+import type { ReceiptFields } from '../../../shared/fairness';
+
+function bet(index: number): ReceiptFields {
+  return {
+    gameId: `game-${index}`,
+    wallet: 'wallet',
+    hashedServerSeed: 'ab'.repeat(32),
+    clientSeed: 'client',
+    nonce: index,
+    riskMode: 'medium',
+    rows: 8,
+    path: [0, 1, 1, 0, 1, 0, 0, 1],
+    finalMultiplier: 1,
+    betAmount: 1000,
+    winAmount: 1000,
+    timestamp: 1700000000000 + index
+  };
+}
+
+describe('merkleRoot', () => {
+  it('splits at the largest power of two below the leaf count', () => {
+    const leaves = ['a', 'b', 'c'].map(data => leafHash(Buffer.from(data).toString('hex')));
+    
+    expect(merkleRoot([leaves[0]])).toBe(leaves[0]);
+    expect(merkleRoot(leaves)).toBe(merkleRoot([merkleRoot(leaves.slice(0, 2)), leaves[2]]));
+  });
+});
+
+describe('MemoryAuditLog', () => {
+  it('chains every record to the one before it', () => {
+    const log = new MemoryAuditLog();
+    const [first, second] = log.append([bet(0), bet(1)]);
+    
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.prevHash).toBe(first.hash);
+    expect(second.sequence).toBe(1);
+  });
+  
+  it('proves every bet against each published root', async () => {
+    const log = new MemoryAuditLog();
+    const bets = Array.from({ length: 11 }, (_, index) => bet(index));
+    
+    log.append(bets.slice(0, 7));
+    const firstRoot = log.checkpoint();
+    log.append(bets.slice(7));
+    log.checkpoint();
+    
+    for (const placed of bets) {
+      expect(await verifyAuditProof(log.proof(placed.gameId)!, placed)).toBe(true);
+    }
+    
+    const earlier = log.proof(bets[3].gameId, firstRoot.size)!;
+    
+    expect(earlier.root).toEqual(firstRoot);
+    expect(await verifyAuditProof(earlier, bets[3])).toBe(true);
+  });
+  
+  it('has no proof for a bet no root covers yet', () => {
+    const log = new MemoryAuditLog();
+    
+    log.append([bet(0)]);
+    log.checkpoint();
+    log.append([bet(1)]);
+    
+    expect(log.proof(bet(1).gameId)).toBeUndefined();
+    expect(log.proof(bet(0).gameId, 2)).toBeUndefined();
+  });
+  
+  it('rejects proofs that were tampered with', async () => {
+    const log = new MemoryAuditLog();
+    const bets = Array.from({ length: 5 }, (_, index) => bet(index));
+    
+    log.append(bets);
+    log.checkpoint();
+    
+    const proof = log.proof(bets[2].gameId)!;
+    
+    expect(await verifyAuditProof({ ...proof, proof: [...proof.proof].reverse() }, bets[2])).toBe(false);
+    expect(await verifyAuditProof({ ...proof, record: { ...proof.record, sequence: 3 } }, bets[2])).toBe(false);
+    expect(await verifyAuditProof({ ...proof, record: { ...proof.record, receipt: `${proof.record.receipt} ` } })).toBe(false);
+    expect(await verifyAuditProof(proof, { ...bets[2], winAmount: 2000 })).toBe(false);
+  });
+});
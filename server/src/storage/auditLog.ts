@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import path from 'path';
+import { appendJsonLines, DATA_DIR, readJsonLines } from './jsonFile';
+import { canonicalReceipt, ReceiptFields } from '../utils/receipts';
+import { inclusionProof, leafHash, merkleRoot } from '../utils/merkle';
+import type { AuditProof, AuditRecord, AuditRoot } from '../../../shared/protocol';
+
+export type { AuditProof, AuditRecord, AuditRoot } from '../../../shared/protocol';
+
+// prevHash of the first record
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Recomputed in the browser by verifyAuditProof, see shared/fairness/webcrypto.ts
+export function auditRecordHash(prevHash: string, receipt: string): string {
+  return crypto.createHash('sha256').update(`${prevHash}\n${receipt}`).digest('hex');
+}
+
+export interface AuditLog {
+  append(bets: ReceiptFields[]): AuditRecord[];
+  find(gameId: string): AuditRecord | undefined;
+  // Publish a root over every record so far, unless nothing was added since the last one
+  checkpoint(): AuditRoot;
+  latestRoot(): AuditRoot | undefined;
+  // Proof that the bet is in the root of `size` records, the latest root by default.
+  // Undefined when the bet is unknown or not covered by that root yet.
+  proof(gameId: string, size?: number): AuditProof | undefined;
+}
+
+// In-memory log, used by tests and as the index behind the file log
+export class MemoryAuditLog implements AuditLog {
+  private records: AuditRecord[] = [];
+  private leaves: string[] = [];
+  private byGame = new Map<string, AuditRecord>();
+  private roots: AuditRoot[] = [];
+  
+  append(bets: ReceiptFields[]): AuditRecord[] {
+    const timestamp = Date.now();
+    let prevHash = this.headHash();
+    
+    const records = bets.map((bet, index) => {
+      const receipt = canonicalReceipt(bet);
+      const hash = auditRecordHash(prevHash, receipt);
+      const record: AuditRecord = {
+        sequence: this.records.length + index,
+        gameId: bet.gameId,
+        wallet: bet.wallet,
+        receipt,
+        prevHash,
+        hash,
+        timestamp
+      };
+      
+      prevHash = hash;
+      return record;
+    });
+    
+    this.persistRecords(records);
+    records.forEach(record => this.applyRecord(record));
+    
+    return records;
+  }
+  
+  find(gameId: string): AuditRecord | undefined {
+    const record = this.byGame.get(gameId);
+    return record && { ...record };
+  }
+  
+  checkpoint(): AuditRoot {
+    const latest = this.latestRoot();
+    
+    if (latest && latest.size === this.records.length) {
+      return latest;
+    }
+    
+    const root: AuditRoot = {
+      size: this.records.length,
+      root: merkleRoot(this.leaves),
+      headHash: this.headHash(),
+      timestamp: Date.now()
+    };
+    
+    this.persistRoot(root);
+    this.applyRoot(root);
+    
+    return root;
+  }
+  
+  latestRoot(): AuditRoot | undefined {
+    return this.roots[this.roots.length - 1];
+  }
+  
+  proof(gameId: string, size?: number): AuditProof | undefined {
+    const record = this.byGame.get(gameId);
+    const root = size === undefined ? this.latestRoot() : this.roots.find(root => root.size === size);
+    
+    if (!record || !root || record.sequence >= root.size) {
+      return undefined;
+    }
+    
+    return {
+      record: { ...record },
+      leaf: this.leaves[record.sequence],
+      root,
+      proof: inclusionProof(this.leaves.slice(0, root.size), record.sequence)
+    };
+  }
+  
+  private headHash(): string {
+    return this.records.length > 0 ? this.records[this.records.length - 1].hash : GENESIS_HASH;
+  }
+  
+  // Hooks for durable logs, called before the records are applied
+  protected persistRecords(records: AuditRecord[]): void {}
+  protected persistRoot(root: AuditRoot): void {}
+  
+  // Refuses records that don't continue the chain, so a tampered file fails on load
+  protected applyRecord(record: AuditRecord): void {
+    if (
+      record.sequence !== this.records.length ||
+      record.prevHash !== this.headHash() ||
+      record.hash !== auditRecordHash(record.prevHash, record.receipt)
+    ) {
+      throw new Error(`Audit log chain is broken at record ${record.sequence}`);
+    }
+    
+    this.records.push(record);
+    this.leaves.push(leafHash(record.hash));
+    this.byGame.set(record.gameId, record);
+  }
+  
+  // A root must cover records that are still in the log unchanged
+  protected applyRoot(root: AuditRoot): void {
+    const head = root.size > 0 ? this.records[root.size - 1]?.hash : GENESIS_HASH;
+    
+    if (head !== root.headHash) {
+      throw new Error(`Audit root of size ${root.size} does not match the log`);
+    }
+    
+    this.roots.push(root);
+  }
+}
+
+// Appends records and roots to two JSON lines files that are never rewritten
+export class FileAuditLog extends MemoryAuditLog {
+  constructor(private recordsPath: string, private rootsPath: string) {
+    super();
+    
+    readJsonLines<AuditRecord>(recordsPath).forEach(record => this.applyRecord(record));
+    readJsonLines<AuditRoot>(rootsPath).forEach(root => this.applyRoot(root));
+  }
+  
+  protected persistRecords(records: AuditRecord[]): void {
+    appendJsonLines(this.recordsPath, records);
+  }
+  
+  protected persistRoot(root: AuditRoot): void {
+    appendJsonLines(this.rootsPath, [root]);
+  }
+}
+
+// Follows PLAYER_STORE like the ledger
+export function createAuditLog(): AuditLog {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemoryAuditLog();
+  }
+  
+  return new FileAuditLog(path.join(DATA_DIR, 'audit-log.jsonl'), path.join(DATA_DIR, 'audit-roots.jsonl'));
+}
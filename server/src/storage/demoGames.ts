@@ -0,0 +1,147 @@
+import path from 'path';
+import { appendJsonLines, DATA_DIR, readJsonLines, writeJsonLines } from './jsonFile';
+import { generateServerSeed, GameOptions, hashServerSeed, RngVersion } from '../utils/provableFairness';
+
+// Most recent demo games kept for lookups, older ones lose their permalink
+export const DEMO_GAME_LIMIT = parseInt(process.env.DEMO_GAME_LIMIT || '10000');
+
+// A free game played through POST /api/plinko/path. Nothing is debited or credited, so
+// these are not in the ledger or the audit log, but they are kept like the wallet games
+// so their permalinks and verification survive a restart.
+export interface DemoGame {
+  gameId: string;
+  hashedServerSeed: string;
+  clientSeed: string;
+  nonce: number;
+  riskMode: GameOptions['riskMode'];
+  rows: number;
+  rngVersion: RngVersion;
+  // Integer base units, only what the bet would have paid
+  betAmount: number;
+  winAmount: number;
+  gameResult: number;
+  path: number[];
+  finalMultiplier: number;
+  timestamp: number;
+}
+
+// Server seeds of the demo games, shared by every player. Only the newest is in use,
+// every older one has been rotated out and is revealed.
+export interface DemoSeed {
+  serverSeed: string;
+  hashedServerSeed: string;
+  createdAt: number;
+}
+
+export interface DemoGameStore {
+  // Seed new games are played with, created on first use
+  currentSeed(): DemoSeed;
+  // Nonce of the next game on the current seed
+  nextNonce(): number;
+  // Start a new seed, which reveals the current one
+  rotateSeed(): DemoSeed;
+  add(game: DemoGame): void;
+  get(gameId: string): DemoGame | undefined;
+  // Any seed games were played with, the current one included
+  findSeed(hashedServerSeed: string): DemoSeed | undefined;
+}
+
+// In-memory store, used by tests and as the index behind the file store
+export class MemoryDemoGameStore implements DemoGameStore {
+  private seeds = new Map<string, DemoSeed>();
+  private current: DemoSeed | undefined;
+  private nonce = 0;
+  protected games = new Map<string, DemoGame>();
+  
+  constructor(protected limit: number = DEMO_GAME_LIMIT) {}
+  
+  currentSeed(): DemoSeed {
+    return { ...(this.current || this.rotateSeed()) };
+  }
+  
+  nextNonce(): number {
+    return this.current ? this.nonce : 0;
+  }
+  
+  rotateSeed(): DemoSeed {
+    const serverSeed = generateServerSeed();
+    const seed: DemoSeed = { serverSeed, hashedServerSeed: hashServerSeed(serverSeed), createdAt: Date.now() };
+    
+    this.persistSeed(seed);
+    this.applySeed(seed);
+    
+    return { ...seed };
+  }
+  
+  add(game: DemoGame): void {
+    this.persistGame(game);
+    this.applyGame(game);
+  }
+  
+  get(gameId: string): DemoGame | undefined {
+    const game = this.games.get(gameId);
+    return game && { ...game };
+  }
+  
+  findSeed(hashedServerSeed: string): DemoSeed | undefined {
+    const seed = this.seeds.get(hashedServerSeed);
+    return seed && { ...seed };
+  }
+  
+  // Hooks for durable stores, called before the change is applied
+  protected persistSeed(seed: DemoSeed): void {}
+  protected persistGame(game: DemoGame): void {}
+  
+  protected applySeed(seed: DemoSeed): void {
+    this.seeds.set(seed.hashedServerSeed, seed);
+    this.current = seed;
+    this.nonce = 0;
+  }
+  
+  protected applyGame(game: DemoGame): void {
+    this.games.set(game.gameId, game);
+    
+    if (game.hashedServerSeed === this.current?.hashedServerSeed) {
+      this.nonce = Math.max(this.nonce, game.nonce + 1);
+    }
+    
+    // Maps iterate in insertion order, so the first key is the oldest game
+    if (this.games.size > this.limit) {
+      this.games.delete(this.games.keys().next().value as string);
+    }
+  }
+}
+
+// Appends games and seeds to two JSON lines files, the games file is compacted to the
+// kept games on startup
+export class FileDemoGameStore extends MemoryDemoGameStore {
+  constructor(private gamesPath: string, private seedsPath: string, limit?: number) {
+    super(limit);
+    
+    readJsonLines<DemoSeed>(seedsPath).forEach(seed => this.applySeed(seed));
+    
+    const games = readJsonLines<DemoGame>(gamesPath);
+    games.forEach(game => this.applyGame(game));
+    
+    if (games.length > this.games.size) {
+      writeJsonLines(gamesPath, Array.from(this.games.values()));
+    }
+  }
+  
+  protected persistSeed(seed: DemoSeed): void {
+    appendJsonLines(this.seedsPath, [seed]);
+  }
+  
+  protected persistGame(game: DemoGame): void {
+    appendJsonLines(this.gamesPath, [game]);
+  }
+}
+
+// Follows PLAYER_STORE like the ledger
+export function createDemoGameStore(): DemoGameStore {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemoryDemoGameStore();
+  }
+  
+  return new FileDemoGameStore(path.join(DATA_DIR, 'demo-games.jsonl'), path.join(DATA_DIR, 'demo-seeds.jsonl'));
+}
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+
+// Directory holding the file-backed stores, relative to the server's working directory
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+// Append-only files hold one JSON record per line
+export function readJsonLines<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  
+  return fs.readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as T);
+}
+
+// All records go out in a single write so a batch is never half appended
+export function appendJsonLines(filePath: string, records: unknown[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+}
+
+// Replace a JSON lines file, e.g. to compact it. Written to a temporary file first and
+// renamed over the target, so a crash mid-write never leaves a truncated store behind.
+export function writeJsonLines(filePath: string, records: unknown[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+  fs.renameSync(tempPath, filePath);
+}
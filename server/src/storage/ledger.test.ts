@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { EXTERNAL_ACCOUNT, FileLedger, HOUSE_ACCOUNT, INCINERATOR_ACCOUNT, LedgerGameRef, MemoryLedger, NewLedgerEntry } from './ledger';
+
+function game(gameId: string, nonce: number): LedgerGameRef {
+  return {
+    gameId,
+    serverSeedHash: 'ab'.repeat(32),
+    clientSeed: 'client',
+    nonce,
+    riskMode: 'medium',
+    rows: 8,
+    multiplier: 2,
+    path: [1, 1, 0, 0, 1, 0, 1, 0],
+    rngVersion: 'v2'
+  };
+}
+
+// A bet and its payout, the way the server settles a game
+function play(wallet: string, gameId: string, nonce: number, amount: number, payout: number): NewLedgerEntry[] {
+  return [
+    { wallet, type: 'bet', amount, game: game(gameId, nonce) },
+    { wallet, type: 'payout', amount: payout, game: game(gameId, nonce) }
+  ];
+}
+
+describe('MemoryLedger', () => {
+  it('debits and credits every entry by the same amount', () => {
+    const ledger = new MemoryLedger();
+    
+    ledger.append([{ wallet: 'alice', type: 'deposit', amount: 1000 }]);
+    ledger.append(play('alice', 'g1', 0, 100, 250));
+    
+    expect(ledger.balanceOf('alice')).toBe(1150);
+    expect(ledger.accountBalance(HOUSE_ACCOUNT)).toBe(-150);
+    expect(ledger.accountBalance(EXTERNAL_ACCOUNT)).toBe(-1000);
+    
+    // Every amount leaves one account and enters another, so the books always sum to zero
+    const total = ['player:alice', HOUSE_ACCOUNT, EXTERNAL_ACCOUNT]
+      .reduce((sum, account) => sum + ledger.accountBalance(account), 0);
+    
+    expect(total).toBe(0);
+  });
+  
+  it('credits incinerations and debits withdrawals against their own accounts', () => {
+    const ledger = new MemoryLedger();
+    
+    ledger.append([{ wallet: 'alice', type: 'incineration', amount: 300 }]);
+    ledger.append([{ wallet: 'alice', type: 'withdrawal', amount: 200 }]);
+    
+    expect(ledger.balanceOf('alice')).toBe(100);
+    expect(ledger.accountBalance(INCINERATOR_ACCOUNT)).toBe(-300);
+    expect(ledger.accountBalance(EXTERNAL_ACCOUNT)).toBe(200);
+    expect(() => ledger.append([{ wallet: 'alice', type: 'withdrawal', amount: 101 }])).toThrow(/overdraw/);
+  });
+  
+  it('appends nothing when any entry would overdraw the player', () => {
+    const ledger = new MemoryLedger();
+    
+    ledger.append([{ wallet: 'alice', type: 'deposit', amount: 100 }]);
+    
+    expect(() => ledger.append([
+      ...play('alice', 'g1', 0, 100, 0),
+      ...play('alice', 'g2', 1, 100, 0)
+    ])).toThrow(/overdraw/);
+    expect(ledger.balanceOf('alice')).toBe(100);
+    expect(ledger.games('alice')).toEqual([]);
+  });
+  
+  it('refuses amounts that are not whole base units', () => {
+    const ledger = new MemoryLedger();
+    
+    expect(() => ledger.append([{ wallet: 'alice', type: 'deposit', amount: 1.5 }])).toThrow(/Invalid ledger amount/);
+    expect(() => ledger.append([{ wallet: 'alice', type: 'deposit', amount: -1 }])).toThrow(/Invalid ledger amount/);
+  });
+  
+  it('rebuilds games from their bet and payout entries', () => {
+    const ledger = new MemoryLedger();
+    
+    ledger.append([{ wallet: 'alice', type: 'deposit', amount: 1000 }]);
+    ledger.append(play('alice', 'g1', 0, 100, 200));
+    
+    expect(ledger.game('g1')).toMatchObject({ gameId: 'g1', wallet: 'alice', betAmount: 100, winAmount: 200, balance: 1100 });
+    expect(ledger.entries('alice', { limit: 2 }).map(entry => entry.type)).toEqual(['payout', 'bet']);
+  });
+});
+
+// The games a resumed socket is sent with game:missed-results
+describe('MemoryLedger.gamesSince', () => {
+  const ledger = new MemoryLedger();
+  
+  ledger.append([
+    { wallet: 'alice', type: 'deposit', amount: 1000 },
+    { wallet: 'bob', type: 'deposit', amount: 1000 }
+  ]);
+  ledger.append(play('alice', 'a1', 0, 10, 0));
+  ledger.append(play('bob', 'b1', 0, 10, 0));
+  ledger.append(play('alice', 'a2', 1, 10, 20));
+  ledger.append(play('alice', 'a3', 2, 10, 0));
+  
+  it('returns the games settled after the last one the client saw', () => {
+    expect(ledger.gamesSince('alice', 'a1').map(record => record.gameId)).toEqual(['a2', 'a3']);
+    expect(ledger.gamesSince('alice', 'a3')).toEqual([]);
+  });
+  
+  it('keeps only the newest games up to the limit', () => {
+    expect(ledger.gamesSince('alice', 'a1', 1).map(record => record.gameId)).toEqual(['a3']);
+  });
+  
+  it('replays nothing for an unknown game or another wallet\'s game', () => {
+    expect(ledger.gamesSince('alice', 'unknown')).toEqual([]);
+    expect(ledger.gamesSince('alice', 'b1')).toEqual([]);
+  });
+});
+
+describe('FileLedger', () => {
+  let dir: string;
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  it('replays the file into the same balances and games', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    const filePath = path.join(dir, 'ledger.jsonl');
+    const ledger = new FileLedger(filePath);
+    
+    ledger.append([{ wallet: 'alice', type: 'deposit', amount: 1000 }]);
+    ledger.append(play('alice', 'g1', 0, 100, 300));
+    ledger.append(play('alice', 'g2', 1, 50, 0));
+    
+    const replayed = new FileLedger(filePath);
+    
+    expect(replayed.balanceOf('alice')).toBe(1150);
+    expect(replayed.accountBalance(HOUSE_ACCOUNT)).toBe(ledger.accountBalance(HOUSE_ACCOUNT));
+    expect(replayed.games('alice')).toEqual(ledger.games('alice'));
+    expect(replayed.append([{ wallet: 'alice', type: 'deposit', amount: 1 }])[0].sequence).toBe(6);
+  });
+});
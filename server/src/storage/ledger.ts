@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { GameHistoryEntry, LedgerEntry, LedgerEntryType } from '../../../shared/protocol';
+import { appendJsonLines, DATA_DIR, readJsonLines } from './jsonFile';
+
+// Entries are sent to clients as they are stored, so their types live in the socket protocol
+export type { LedgerEntry, LedgerEntryType, LedgerGameRef } from '../../../shared/protocol';
+
+// Counterparties of the player accounts
+export const HOUSE_ACCOUNT = 'house';
+export const EXTERNAL_ACCOUNT = 'external';
+export const INCINERATOR_ACCOUNT = 'incinerator';
+
+export function playerAccount(wallet: string): string {
+  return `player:${wallet}`;
+}
+
+// Double entry: every entry debits one account and credits another by the same amount
+function accountsFor(type: LedgerEntryType, wallet: string): { debit: string; credit: string } {
+  const player = playerAccount(wallet);
+  
+  switch (type) {
+    case 'deposit':
+      return { debit: EXTERNAL_ACCOUNT, credit: player };
+    case 'bet':
+      return { debit: player, credit: HOUSE_ACCOUNT };
+    case 'payout':
+      return { debit: HOUSE_ACCOUNT, credit: player };
+    case 'incineration':
+      return { debit: INCINERATOR_ACCOUNT, credit: player };
+    case 'withdrawal':
+      return { debit: player, credit: EXTERNAL_ACCOUNT };
+  }
+}
+
+export type NewLedgerEntry = Pick<LedgerEntry, 'wallet' | 'type' | 'amount' | 'game'>;
+
+// A settled game rebuilt from its bet and payout entries, same fields as game:result
+export type GameRecord = GameHistoryEntry;
+
+export interface Ledger {
+  // Appends all entries or none, throws if any would overdraw the player
+  append(entries: NewLedgerEntry[]): LedgerEntry[];
+  balanceOf(wallet: string): number;
+  // Credits minus debits of any account, e.g. HOUSE_ACCOUNT
+  accountBalance(account: string): number;
+  // Newest first, `before` is an exclusive sequence number for paging
+  entries(wallet: string, options?: { limit?: number; before?: number }): LedgerEntry[];
+  games(wallet: string, limit?: number): GameRecord[];
+  // The wallet's games placed after `gameId`, the newest `limit` of them. Empty when that
+  // game is unknown or another wallet's, so a stale id never replays the whole history.
+  gamesSince(wallet: string, gameId: string, limit?: number): GameRecord[];
+  // Any player's game, for permalinks and audits
+  game(gameId: string): GameRecord | undefined;
+}
+
+// Rebuild games from their bet and payout entries, in the order they were placed
+function collectGames(entries: LedgerEntry[]): GameRecord[] {
+  const games = new Map<string, GameRecord>();
+  
+  for (const entry of entries) {
+    if (!entry.game) {
+      continue;
+    }
+    
+    if (entry.type === 'bet') {
+      games.set(entry.game.gameId, {
+        gameId: entry.game.gameId,
+        wallet: entry.wallet,
+        hashedServerSeed: entry.game.serverSeedHash,
+        clientSeed: entry.game.clientSeed,
+        nonce: entry.game.nonce,
+        riskMode: entry.game.riskMode,
+        rows: entry.game.rows,
+        finalMultiplier: entry.game.multiplier,
+        path: entry.game.path,
+        rngVersion: entry.game.rngVersion,
+        betAmount: entry.amount,
+        winAmount: 0,
+        balance: entry.balance,
+        timestamp: entry.timestamp
+      });
+    }
+    
+    const game = games.get(entry.game.gameId);
+    
+    if (entry.type === 'payout' && game) {
+      game.winAmount = entry.amount;
+      game.balance = entry.balance;
+    }
+  }
+  
+  return Array.from(games.values());
+}
+
+// In-memory ledger, used by tests and as the index behind the file ledger
+export class MemoryLedger implements Ledger {
+  private byWallet = new Map<string, LedgerEntry[]>();
+  private byGame = new Map<string, LedgerEntry[]>();
+  private accountBalances = new Map<string, number>();
+  private sequence = 0;
+  
+  append(entries: NewLedgerEntry[]): LedgerEntry[] {
+    const balances = new Map<string, number>();
+    const timestamp = Date.now();
+    
+    const records = entries.map((entry, index) => {
+      if (!Number.isSafeInteger(entry.amount) || entry.amount < 0) {
+        throw new Error(`Invalid ledger amount: ${entry.amount}`);
+      }
+      
+      const { debit, credit } = accountsFor(entry.type, entry.wallet);
+      const current = balances.get(entry.wallet) ?? this.balanceOf(entry.wallet);
+      const balance = debit === playerAccount(entry.wallet) ? current - entry.amount : current + entry.amount;
+      
+      if (balance < 0) {
+        throw new Error(`Ledger entry would overdraw ${entry.wallet}`);
+      }
+      
+      balances.set(entry.wallet, balance);
+      
+      const record: LedgerEntry = {
+        id: crypto.randomUUID(),
+        sequence: this.sequence + index + 1,
+        wallet: entry.wallet,
+        type: entry.type,
+        debit,
+        credit,
+        amount: entry.amount,
+        balance,
+        timestamp
+      };
+      
+      return entry.game ? { ...record, game: entry.game } : record;
+    });
+    
+    this.persist(records);
+    records.forEach(record => this.apply(record));
+    
+    return records;
+  }
+  
+  balanceOf(wallet: string): number {
+    return this.accountBalance(playerAccount(wallet));
+  }
+  
+  accountBalance(account: string): number {
+    return this.accountBalances.get(account) ?? 0;
+  }
+  
+  entries(wallet: string, options: { limit?: number; before?: number } = {}): LedgerEntry[] {
+    const { limit = 100, before = Infinity } = options;
+    
+    return (this.byWallet.get(wallet) || [])
+      .filter(entry => entry.sequence < before)
+      .slice(-limit)
+      .reverse();
+  }
+  
+  games(wallet: string, limit = 100): GameRecord[] {
+    return collectGames(this.byWallet.get(wallet) || []).slice(-limit);
+  }
+  
+  gamesSince(wallet: string, gameId: string, limit = 100): GameRecord[] {
+    const gameEntries = this.byGame.get(gameId);
+    
+    if (!gameEntries || gameEntries[0].wallet !== wallet) {
+      return [];
+    }
+    
+    // Sequence numbers order entries across the whole ledger, past the game's payout
+    const settledAt = gameEntries[gameEntries.length - 1].sequence;
+    const later = (this.byWallet.get(wallet) || []).filter(entry => entry.sequence > settledAt);
+    
+    return collectGames(later).slice(-limit);
+  }
+  
+  game(gameId: string): GameRecord | undefined {
+    return collectGames(this.byGame.get(gameId) || [])[0];
+  }
+  
+  // Hook for durable ledgers, called before the records are applied
+  protected persist(records: LedgerEntry[]): void {}
+  
+  // Replaying every entry in order rebuilds every account's balance
+  protected apply(record: LedgerEntry): void {
+    const walletEntries = this.byWallet.get(record.wallet) || [];
+    walletEntries.push(record);
+    this.byWallet.set(record.wallet, walletEntries);
+    
+    if (record.game) {
+      const gameEntries = this.byGame.get(record.game.gameId) || [];
+      gameEntries.push(record);
+      this.byGame.set(record.game.gameId, gameEntries);
+    }
+    
+    this.accountBalances.set(record.debit, this.accountBalance(record.debit) - record.amount);
+    this.accountBalances.set(record.credit, this.accountBalance(record.credit) + record.amount);
+    this.sequence = record.sequence;
+  }
+}
+
+// Appends entries to a JSON lines file that is never rewritten
+export class FileLedger extends MemoryLedger {
+  constructor(private filePath: string) {
+    super();
+    
+    readJsonLines<LedgerEntry>(filePath).forEach(record => this.apply(record));
+  }
+  
+  protected persist(records: LedgerEntry[]): void {
+    appendJsonLines(this.filePath, records);
+  }
+}
+
+// Follows PLAYER_STORE so cached balances and the ledger always live in the same place
+export function createLedger(): Ledger {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemoryLedger();
+  }
+  
+  return new FileLedger(path.join(DATA_DIR, 'ledger.jsonl'));
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FilePlayerStore, PlayerAccount } from './playerStore';
+import { readJsonLines } from './jsonFile';
+
+function account(wallet: string, nonce = 0): PlayerAccount {
+  return {
+    wallet,
+    serverSeed: 'seed',
+    seedChain: { root: 'ab'.repeat(32), index: 0, anchor: 'cd'.repeat(32), length: 1000, position: 1 },
+    clientSeed: 'client',
+    nonce,
+    balance: 1000,
+    createdAt: 1,
+    updatedAt: 1
+  };
+}
+
+describe('FilePlayerStore', () => {
+  let dir: string;
+  let filePath: string;
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'players-'));
+    filePath = path.join(dir, 'players.jsonl');
+  });
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  it('appends each save and loads the last one of every wallet', () => {
+    const store = new FilePlayerStore(filePath);
+    
+    store.save(account('alice', 1));
+    store.save(account('alice', 2));
+    store.save(account('bob'));
+    
+    expect(readJsonLines(filePath)).toHaveLength(3);
+    expect(new FilePlayerStore(filePath).get('alice')?.nonce).toBe(2);
+  });
+  
+  it('compacts the file to one line per account on startup', () => {
+    const store = new FilePlayerStore(filePath);
+    
+    store.save(account('alice', 1));
+    store.save(account('alice', 2));
+    new FilePlayerStore(filePath);
+    
+    expect(readJsonLines<PlayerAccount>(filePath).map(saved => saved.nonce)).toEqual([2]);
+  });
+});
@@ -0,0 +1,69 @@
+import path from 'path';
+import { appendJsonLines, DATA_DIR, readJsonLines, writeJsonLines } from './jsonFile';
+import type { SeedChainInfo } from '../../../shared/protocol';
+
+// Player state keyed by wallet public key, survives reconnects and restarts
+export interface PlayerAccount {
+  wallet: string;
+  serverSeed: string;
+  // Position of the server seed in the player's seed chain
+  seedChain: SeedChainInfo;
+  clientSeed: string;
+  nonce: number;
+  balance: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PlayerStore {
+  get(wallet: string): PlayerAccount | undefined;
+  save(account: PlayerAccount): void;
+}
+
+// In-memory store, used by tests and as the cache behind the file store
+export class MemoryPlayerStore implements PlayerStore {
+  protected accounts = new Map<string, PlayerAccount>();
+  
+  get(wallet: string): PlayerAccount | undefined {
+    const account = this.accounts.get(wallet);
+    return account ? { ...account } : undefined;
+  }
+  
+  save(account: PlayerAccount): void {
+    const saved = { ...account, updatedAt: Date.now() };
+    
+    this.persist(saved);
+    this.accounts.set(saved.wallet, saved);
+  }
+  
+  // Hook for durable stores, called before the change is applied
+  protected persist(account: PlayerAccount): void {}
+}
+
+// Appends each saved account to a JSON lines file, where the last line of a wallet is
+// its current state. On startup the file is compacted to one line per account.
+export class FilePlayerStore extends MemoryPlayerStore {
+  constructor(private filePath: string) {
+    super();
+    
+    const saved = readJsonLines<PlayerAccount>(filePath);
+    saved.forEach(account => this.accounts.set(account.wallet, account));
+    
+    if (saved.length > this.accounts.size) {
+      writeJsonLines(filePath, Array.from(this.accounts.values()));
+    }
+  }
+  
+  protected persist(account: PlayerAccount): void {
+    appendJsonLines(this.filePath, [account]);
+  }
+}
+
+// PLAYER_STORE=memory keeps accounts for the lifetime of the process only
+export function createPlayerStore(): PlayerStore {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemoryPlayerStore();
+  }
+  
+  return new FilePlayerStore(path.join(DATA_DIR, 'players.jsonl'));
+}
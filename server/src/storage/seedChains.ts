@@ -0,0 +1,105 @@
+import path from 'path';
+import { appendJsonLines, DATA_DIR, readJsonLines } from './jsonFile';
+
+// Seed chains generated together, one per player, see utils/seedChain.ts. The tips are
+// derived from the server's secret and the batch id, so only public values are stored.
+export interface SeedChainBatch {
+  id: string;
+  // Merkle root over the anchors, published before any seed of the batch is used
+  root: string;
+  length: number;
+  anchors: string[];
+  createdAt: number;
+}
+
+// A chain of a batch handed to a player
+export interface SeedChainAssignment {
+  wallet: string;
+  root: string;
+  index: number;
+}
+
+type SeedChainRecord = ({ kind: 'batch' } & SeedChainBatch) | ({ kind: 'assignment' } & SeedChainAssignment);
+
+export interface SeedChainStore {
+  // Batch new chains are handed out from, undefined until the first one is added
+  currentBatch(): SeedChainBatch | undefined;
+  // Any batch by its root, for proofs of chains handed out earlier
+  findBatch(root: string): SeedChainBatch | undefined;
+  // Index of the next chain of the current batch that was never handed out
+  nextIndex(): number;
+  addBatch(batch: SeedChainBatch): void;
+  assign(assignment: SeedChainAssignment): void;
+}
+
+// In-memory store, used by tests and as the index behind the file store
+export class MemorySeedChainStore implements SeedChainStore {
+  private batches = new Map<string, SeedChainBatch>();
+  private current: SeedChainBatch | undefined;
+  private next = 0;
+  
+  currentBatch(): SeedChainBatch | undefined {
+    return this.current;
+  }
+  
+  findBatch(root: string): SeedChainBatch | undefined {
+    return this.batches.get(root);
+  }
+  
+  nextIndex(): number {
+    return this.next;
+  }
+  
+  addBatch(batch: SeedChainBatch): void {
+    this.persist({ kind: 'batch', ...batch });
+    this.applyBatch(batch);
+  }
+  
+  assign(assignment: SeedChainAssignment): void {
+    this.persist({ kind: 'assignment', ...assignment });
+    this.applyAssignment(assignment);
+  }
+  
+  // Hook for durable stores, called before the change is applied
+  protected persist(record: SeedChainRecord): void {}
+  
+  protected applyBatch(batch: SeedChainBatch): void {
+    this.batches.set(batch.root, batch);
+    this.current = batch;
+    this.next = 0;
+  }
+  
+  protected applyAssignment({ root, index }: SeedChainAssignment): void {
+    if (root === this.current?.root) {
+      this.next = Math.max(this.next, index + 1);
+    }
+  }
+}
+
+// Appends batches and assignments to a JSON lines file, replayed on startup
+export class FileSeedChainStore extends MemorySeedChainStore {
+  constructor(private filePath: string) {
+    super();
+    
+    readJsonLines<SeedChainRecord>(filePath).forEach(({ kind, ...record }) => {
+      if (kind === 'batch') {
+        this.applyBatch(record as SeedChainBatch);
+      } else {
+        this.applyAssignment(record as SeedChainAssignment);
+      }
+    });
+  }
+  
+  protected persist(record: SeedChainRecord): void {
+    appendJsonLines(this.filePath, [record]);
+  }
+}
+
+// Follows PLAYER_STORE, the batches have to outlive the accounts holding their chains
+export function createSeedChainStore(): SeedChainStore {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemorySeedChainStore();
+  }
+  
+  return new FileSeedChainStore(path.join(DATA_DIR, 'seed-chains.jsonl'));
+}
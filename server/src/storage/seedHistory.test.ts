@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileSeedHistoryStore, NewSeedPairRecord } from './seedHistory';
+import { readJsonLines } from './jsonFile';
+
+function pair(hashedServerSeed: string, clientSeed: string): NewSeedPairRecord {
+  return {
+    wallet: 'alice',
+    hashedServerSeed,
+    seedChain: { root: 'ab'.repeat(32), index: 0, anchor: 'cd'.repeat(32), length: 1000, position: 1 },
+    clientSeed,
+    betCount: 0
+  };
+}
+
+describe('FileSeedHistoryStore', () => {
+  let dir: string;
+  let filePath: string;
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-history-'));
+    filePath = path.join(dir, 'seed-history.jsonl');
+  });
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  it('appends retired pairs and reveals instead of rewriting the file', () => {
+    const store = new FileSeedHistoryStore(filePath);
+    
+    store.retire(pair('h1', 'first'));
+    store.retire(pair('h1', 'second'));
+    store.reveal('alice', 'h1', 'seed-1');
+    store.reveal('alice', 'h1', 'seed-1');
+    
+    expect(readJsonLines<{ kind: string }>(filePath).map(record => record.kind)).toEqual(['retire', 'retire', 'reveal']);
+  });
+  
+  it('replays the file into the same history', () => {
+    const store = new FileSeedHistoryStore(filePath);
+    
+    store.retire(pair('h1', 'first'));
+    store.retire(pair('h2', 'second'));
+    store.reveal('alice', 'h1', 'seed-1');
+    
+    const replayed = new FileSeedHistoryStore(filePath);
+    
+    expect(replayed.list('alice', 1, 10)).toEqual(store.list('alice', 1, 10));
+    expect(replayed.revealedSeed('alice', 'h1')).toBe('seed-1');
+    expect(replayed.revealedSeed('alice', 'h2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import path from 'path';
+import { appendJsonLines, DATA_DIR, readJsonLines } from './jsonFile';
+import type { SeedHistoryPage, SeedPairRecord } from '../../../shared/protocol';
+
+// Pairs are sent to clients as they are stored, so their type lives in the shared protocol
+export type { SeedPairRecord } from '../../../shared/protocol';
+
+export type NewSeedPairRecord = Omit<SeedPairRecord, 'id' | 'retiredAt' | 'revealedAt'>;
+
+// A server seed revealed on every retired pair of the wallet that committed to it
+interface SeedReveal {
+  wallet: string;
+  hashedServerSeed: string;
+  serverSeed: string;
+  revealedAt: number;
+}
+
+type SeedHistoryRecord = ({ kind: 'retire' } & SeedPairRecord) | ({ kind: 'reveal' } & SeedReveal);
+
+// A page of the history, the route adds the wallet and paging it was asked for
+export type SeedHistoryList = Pick<SeedHistoryPage, 'total' | 'items'>;
+
+export interface SeedHistoryStore {
+  retire(record: NewSeedPairRecord): SeedPairRecord;
+  // Reveal the server seed on every retired pair that committed to it
+  reveal(wallet: string, hashedServerSeed: string, serverSeed: string): void;
+  // The server seed behind a commitment, once it has been revealed
+  revealedSeed(wallet: string, hashedServerSeed: string): string | undefined;
+  // Newest first, pages start at 1
+  list(wallet: string, page: number, pageSize: number): SeedHistoryList;
+}
+
+// In-memory store, used by tests and as the cache behind the file store
+export class MemorySeedHistoryStore implements SeedHistoryStore {
+  protected records = new Map<string, SeedPairRecord[]>();
+  
+  retire(record: NewSeedPairRecord): SeedPairRecord {
+    const now = Date.now();
+    const retired: SeedPairRecord = {
+      ...record,
+      id: crypto.randomUUID(),
+      retiredAt: now,
+      revealedAt: record.serverSeed ? now : undefined
+    };
+    
+    this.persist({ kind: 'retire', ...retired });
+    this.applyRetire(retired);
+    
+    return { ...retired };
+  }
+  
+  reveal(wallet: string, hashedServerSeed: string, serverSeed: string): void {
+    const hidden = (this.records.get(wallet) || [])
+      .some(record => record.hashedServerSeed === hashedServerSeed && !record.serverSeed);
+    
+    if (hidden) {
+      const reveal: SeedReveal = { wallet, hashedServerSeed, serverSeed, revealedAt: Date.now() };
+      
+      this.persist({ kind: 'reveal', ...reveal });
+      this.applyReveal(reveal);
+    }
+  }
+  
+  revealedSeed(wallet: string, hashedServerSeed: string): string | undefined {
+    return (this.records.get(wallet) || [])
+      .find(record => record.hashedServerSeed === hashedServerSeed && record.serverSeed)?.serverSeed;
+  }
+  
+  list(wallet: string, page: number, pageSize: number): SeedHistoryList {
+    const records = (this.records.get(wallet) || []).slice().reverse();
+    const start = (page - 1) * pageSize;
+    
+    return {
+      total: records.length,
+      items: records.slice(start, start + pageSize).map(record => ({ ...record }))
+    };
+  }
+  
+  // Hook for durable stores, called before the change is applied
+  protected persist(record: SeedHistoryRecord): void {}
+  
+  protected applyRetire(retired: SeedPairRecord): void {
+    const records = this.records.get(retired.wallet) || [];
+    records.push(retired);
+    this.records.set(retired.wallet, records);
+  }
+  
+  protected applyReveal({ wallet, hashedServerSeed, serverSeed, revealedAt }: SeedReveal): void {
+    (this.records.get(wallet) || [])
+      .filter(record => record.hashedServerSeed === hashedServerSeed && !record.serverSeed)
+      .forEach(record => {
+        record.serverSeed = serverSeed;
+        record.revealedAt = revealedAt;
+      });
+  }
+}
+
+// Appends retired pairs and reveals to a JSON lines file, replayed on startup
+export class FileSeedHistoryStore extends MemorySeedHistoryStore {
+  constructor(private filePath: string) {
+    super();
+    
+    readJsonLines<SeedHistoryRecord>(filePath).forEach(({ kind, ...record }) => {
+      if (kind === 'retire') {
+        this.applyRetire(record as SeedPairRecord);
+      } else {
+        this.applyReveal(record as SeedReveal);
+      }
+    });
+  }
+  
+  protected persist(record: SeedHistoryRecord): void {
+    appendJsonLines(this.filePath, [record]);
+  }
+}
+
+// Follows PLAYER_STORE like the ledger
+export function createSeedHistoryStore(): SeedHistoryStore {
+  if (process.env.PLAYER_STORE === 'memory') {
+    return new MemorySeedHistoryStore();
+  }
+  
+  return new FileSeedHistoryStore(path.join(DATA_DIR, 'seed-history.jsonl'));
+}
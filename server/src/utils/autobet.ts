@@ -0,0 +1,53 @@
+import type { AutobetSettings, AutobetStopReason } from '../../../shared/protocol';
+
+// Runs are started with autobet:start and reported back with its status events
+export type { AutobetSettings, AutobetStopReason, AutobetStrategy } from '../../../shared/protocol';
+
+export interface AutobetState {
+  settings: AutobetSettings;
+  betsPlayed: number;
+  profit: number;
+  currentBet: number;
+}
+
+export function createAutobetState(settings: AutobetSettings): AutobetState {
+  return { settings, betsPlayed: 0, profit: 0, currentBet: settings.betAmount };
+}
+
+// Raise a bet by a percentage, rounding down to whole base units like payouts do
+function increaseBet(amount: number, percent: number): number {
+  const factor = BigInt(10000 + Math.round(percent * 100));
+  return Number((BigInt(amount) * factor) / BigInt(10000));
+}
+
+// Record a settled bet and pick the next bet size, returns why the run should stop or null
+export function advanceAutobet(
+  state: AutobetState,
+  result: { betAmount: number; winAmount: number; finalMultiplier: number }
+): AutobetStopReason | null {
+  const { settings } = state;
+  const isWin = result.winAmount > result.betAmount;
+  const strategy = isWin ? settings.onWin : settings.onLoss;
+
+  state.betsPlayed++;
+  state.profit += result.winAmount - result.betAmount;
+  state.currentBet = strategy.action === 'reset' ? settings.betAmount : increaseBet(state.currentBet, strategy.percent);
+
+  if (settings.stopOnMultiplier !== undefined && result.finalMultiplier >= settings.stopOnMultiplier) {
+    return 'multiplier';
+  }
+
+  if (settings.stopOnProfit !== undefined && state.profit >= settings.stopOnProfit) {
+    return 'profit';
+  }
+
+  if (settings.stopOnLoss !== undefined && -state.profit >= settings.stopOnLoss) {
+    return 'loss';
+  }
+
+  if (settings.count > 0 && state.betsPlayed >= settings.count) {
+    return 'completed';
+  }
+
+  return null;
+}
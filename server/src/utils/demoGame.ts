@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { calculateGameResult, CURRENT_RNG_VERSION, verifyGameResult } from './provableFairness';
+import { checkBetLimits, HOUSE_BANKROLL } from './limits';
+import { calculatePayout, CURRENCY } from './units';
+import { DemoGame, DemoGameStore } from '../storage/demoGames';
+import { parse, pathRequestSchema, verifyByIdSchema, verifySeedsSchema } from '../../../shared/validation';
+import type { Currency, ErrorPayload } from '../../../shared/protocol';
+
+// Demo games played on one server seed before it is rotated out and revealed
+export const DEMO_SEED_ROTATION = parseInt(process.env.DEMO_SEED_ROTATION || '1000');
+
+// Status and JSON body of a REST answer, sent by Express or by the Next routes in embedded mode
+export interface RestReply {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown): RestReply => ({ status: 200, body });
+
+// Same body as the game server's sendError
+const failure = (status: number, error: ErrorPayload): RestReply => ({ status, body: { status: 'error', ...error } });
+
+const gameNotFound = () => failure(404, { code: 'GAME_NOT_FOUND', message: 'Game not found', field: 'gameId' });
+
+// A demo game as shown on its permalink, the server seed once it has been rotated out
+export type DemoBet = DemoGame & { serverSeed?: string; currency: Currency; demo: true };
+
+/**
+ * The REST game: free drops on a server seed shared by every caller, with no account,
+ * balance, receipt or audit record. Both the game server and the in-process engine of
+ * the Next routes serve it from here, so they play, rotate and verify alike.
+ */
+export function createDemoGame(store: DemoGameStore, rotateEvery: number = DEMO_SEED_ROTATION) {
+  // Undefined while the seed is still in use
+  function revealedSeed(hashedServerSeed: string): string | undefined {
+    const seed = store.findSeed(hashedServerSeed);
+    return seed && seed.hashedServerSeed !== store.currentSeed().hashedServerSeed ? seed.serverSeed : undefined;
+  }
+
+  function rotate() {
+    const retired = store.currentSeed();
+    const next = store.rotateSeed();
+
+    return {
+      revealedSeed: retired.serverSeed,
+      hashedServerSeed: retired.hashedServerSeed,
+      serverSeedHash: next.hashedServerSeed,
+      nonce: 0
+    };
+  }
+
+  return {
+    seed(): RestReply {
+      const seed = store.currentSeed();
+      return ok({ serverSeedHash: seed.hashedServerSeed, nonce: store.nextNonce(), rotatesAfter: rotateEvery, demo: true });
+    },
+
+    // Anyone may rotate, nothing is at stake and only finished games are revealed
+    rotateSeed(): RestReply {
+      return ok(rotate());
+    },
+
+    play(body: unknown): RestReply {
+      const parsed = parse(pathRequestSchema, body);
+
+      if (!parsed.ok) {
+        return failure(400, parsed.error);
+      }
+
+      // The house bankroll only sizes the same limits wallet bets get
+      const { betAmount, clientSeed, riskLevel, rows } = parsed.value;
+      const limitError = checkBetLimits(betAmount, riskLevel, rows, HOUSE_BANKROLL);
+
+      if (limitError) {
+        return failure(400, limitError);
+      }
+
+      const seed = store.currentSeed();
+      const nonce = store.nextNonce();
+      const result = calculateGameResult(seed.serverSeed, clientSeed, nonce, {
+        rows,
+        riskMode: riskLevel,
+        rngVersion: CURRENT_RNG_VERSION
+      });
+
+      const game: DemoGame = {
+        gameId: crypto.randomUUID(),
+        hashedServerSeed: seed.hashedServerSeed,
+        clientSeed,
+        nonce,
+        riskMode: riskLevel,
+        rows,
+        rngVersion: result.rngVersion,
+        betAmount,
+        winAmount: calculatePayout(betAmount, result.finalMultiplier),
+        gameResult: result.gameResult,
+        path: result.path,
+        finalMultiplier: result.finalMultiplier,
+        timestamp: Date.now()
+      };
+
+      store.add(game);
+
+      if (nonce + 1 >= rotateEvery) {
+        rotate();
+      }
+
+      return ok({
+        gameId: game.gameId,
+        bucket: game.gameResult,
+        path: game.path,
+        multiplier: game.finalMultiplier,
+        payout: game.winAmount,
+        nonce,
+        clientSeed,
+        hashedServerSeed: game.hashedServerSeed,
+        rngVersion: game.rngVersion,
+        demo: true
+      });
+    },
+
+    bet(gameId: string): DemoBet | undefined {
+      const game = store.get(gameId);
+      return game && { ...game, serverSeed: revealedSeed(game.hashedServerSeed), currency: CURRENCY, demo: true };
+    },
+
+    // A demo game by its id, or any seeds and nonce
+    verify(body: unknown): RestReply {
+      if (body && typeof body === 'object' && 'gameId' in body) {
+        const parsedId = parse(verifyByIdSchema, body);
+
+        if (!parsedId.ok) {
+          return failure(400, parsedId.error);
+        }
+
+        const game = store.get(parsedId.value.gameId);
+        const seed = game && store.findSeed(game.hashedServerSeed);
+
+        if (!game || !seed) {
+          return gameNotFound();
+        }
+
+        const options = { rows: game.rows, riskMode: game.riskMode, rngVersion: game.rngVersion };
+        const verified = verifyGameResult(seed.serverSeed, game.clientSeed, game.nonce, options, {
+          ...game,
+          serverSeed: seed.serverSeed
+        });
+
+        return ok({
+          status: 'ok',
+          verified,
+          gameId: game.gameId,
+          hashedServerSeed: game.hashedServerSeed,
+          clientSeed: game.clientSeed,
+          nonce: game.nonce,
+          rows: game.rows,
+          riskLevel: game.riskMode,
+          bucket: game.gameResult,
+          path: game.path,
+          multiplier: game.finalMultiplier,
+          rngVersion: game.rngVersion,
+          revealedSeed: revealedSeed(game.hashedServerSeed)
+        });
+      }
+
+      const parsed = parse(verifySeedsSchema, body);
+
+      if (!parsed.ok) {
+        return failure(400, parsed.error);
+      }
+
+      const { serverSeed, clientSeed, nonce, rows, riskLevel, rngVersion, result: reported } = parsed.value;
+      const result = calculateGameResult(serverSeed, clientSeed, nonce, { rows, riskMode: riskLevel, rngVersion });
+
+      // Only claim verification when the caller sent a result to compare against
+      const verified = reported
+        ? reported.bucket === result.gameResult &&
+          reported.multiplier === result.finalMultiplier &&
+          JSON.stringify(reported.path) === JSON.stringify(result.path)
+        : undefined;
+
+      return ok({
+        status: 'ok',
+        verified,
+        hashedServerSeed: result.hashedServerSeed,
+        clientSeed,
+        nonce,
+        rows,
+        riskLevel,
+        bucket: result.gameResult,
+        path: result.path,
+        multiplier: result.finalMultiplier,
+        rngVersion
+      });
+    }
+  };
+}
+
+export type DemoGameService = ReturnType<typeof createDemoGame>;
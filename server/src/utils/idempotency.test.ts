@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IdempotencyCache } from './idempotency';
+
+describe('IdempotencyCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers a repeated bet id with the first response', () => {
+    const cache = new IdempotencyCache<string>();
+
+    cache.set('alice', 'bet-1', 'first');
+
+    expect(cache.get('alice', 'bet-1')).toBe('first');
+    expect(cache.get('alice', 'bet-2')).toBeUndefined();
+  });
+
+  it('scopes bet ids to the wallet', () => {
+    const cache = new IdempotencyCache<string>();
+
+    cache.set('alice', 'bet-1', 'alice');
+
+    expect(cache.get('bob', 'bet-1')).toBeUndefined();
+  });
+
+  it('forgets responses once they expire', () => {
+    vi.useFakeTimers();
+    const cache = new IdempotencyCache<string>(1000);
+
+    cache.set('alice', 'bet-1', 'first');
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('alice', 'bet-1')).toBe('first');
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('alice', 'bet-1')).toBeUndefined();
+  });
+
+  it('drops the oldest bet ids once full', () => {
+    const cache = new IdempotencyCache<number>(60000, 2);
+
+    cache.set('alice', 'bet-1', 1);
+    cache.set('alice', 'bet-2', 2);
+    cache.set('alice', 'bet-3', 3);
+
+    expect(cache.get('alice', 'bet-1')).toBeUndefined();
+    expect(cache.get('alice', 'bet-2')).toBe(2);
+    expect(cache.get('alice', 'bet-3')).toBe(3);
+  });
+});
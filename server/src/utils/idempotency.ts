@@ -0,0 +1,42 @@
+// Repeated plays with the same client bet id get the first answer back instead of
+// placing another bet, so a client can safely retry a play it never got an answer to
+export const BET_ID_TTL_MS = parseInt(process.env.BET_ID_TTL_MS || String(10 * 60 * 1000));
+// Oldest keys are dropped first once the cache is full
+export const MAX_BET_IDS = 10000;
+
+interface CachedResponse<T> {
+  response: T;
+  expiresAt: number;
+}
+
+export class IdempotencyCache<T> {
+  // Map iterates in insertion order, so the first key is always the oldest
+  private responses = new Map<string, CachedResponse<T>>();
+
+  constructor(private ttlMs = BET_ID_TTL_MS, private maxEntries = MAX_BET_IDS) {}
+
+  // Keys are scoped to the wallet, one player can't replay another's bet id
+  get(wallet: string, betId: string): T | undefined {
+    const key = `${wallet}:${betId}`;
+    const cached = this.responses.get(key);
+
+    if (cached && Date.now() > cached.expiresAt) {
+      this.responses.delete(key);
+      return undefined;
+    }
+
+    return cached?.response;
+  }
+
+  set(wallet: string, betId: string, response: T): void {
+    this.responses.set(`${wallet}:${betId}`, { response, expiresAt: Date.now() + this.ttlMs });
+
+    for (const key of this.responses.keys()) {
+      if (this.responses.size <= this.maxEntries) {
+        break;
+      }
+
+      this.responses.delete(key);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BANKROLL_MAX_EXPOSURE, checkBetLimits, getBetLimits, HOUSE_BANKROLL, MAX_PAYOUT, parseCurrencyLimits } from './limits';
+import { getMultipliers } from './provableFairness';
+import { calculatePayout } from './units';
+
+// Payout of a bet landing on the table's top multiplier
+function worstCase(betAmount: number, riskMode: 'low' | 'medium' | 'high', rows: number): number {
+  return calculatePayout(betAmount, Math.max(...getMultipliers(riskMode, rows)));
+}
+
+describe('getBetLimits', () => {
+  it('keeps the largest bet within the bankroll guard and MAX_PAYOUT', () => {
+    for (const riskMode of ['low', 'medium', 'high'] as const) {
+      for (const rows of [8, 12, 16]) {
+        const { maxBet } = getBetLimits(riskMode, rows, HOUSE_BANKROLL);
+
+        expect(worstCase(maxBet, riskMode, rows)).toBeLessThanOrEqual(HOUSE_BANKROLL * BANKROLL_MAX_EXPOSURE);
+        expect(worstCase(maxBet, riskMode, rows)).toBeLessThanOrEqual(MAX_PAYOUT);
+      }
+    }
+  });
+
+  it('shrinks the largest bet as the house funds shrink', () => {
+    const full = getBetLimits('high', 16, HOUSE_BANKROLL);
+    const half = getBetLimits('high', 16, HOUSE_BANKROLL / 2);
+
+    expect(half.maxBet).toBeLessThan(full.maxBet);
+    expect(getBetLimits('high', 16, -1).maxBet).toBe(0);
+  });
+});
+
+describe('checkBetLimits', () => {
+  const { minBet, maxBet } = getBetLimits('high', 16, HOUSE_BANKROLL);
+
+  it('accepts bets within the table limits', () => {
+    expect(checkBetLimits(minBet, 'high', 16, HOUSE_BANKROLL)).toBeNull();
+    expect(checkBetLimits(maxBet, 'high', 16, HOUSE_BANKROLL)).toBeNull();
+  });
+
+  it('refuses bets below the minimum', () => {
+    expect(checkBetLimits(minBet - 1, 'high', 16, HOUSE_BANKROLL)).toMatchObject({ code: 'BET_LIMIT_EXCEEDED' });
+  });
+
+  it('refuses bets above the table maximum', () => {
+    expect(checkBetLimits(maxBet + 1, 'high', 16, HOUSE_BANKROLL)).toMatchObject({ code: 'BET_LIMIT_EXCEEDED' });
+  });
+
+  it('refuses bets the house can\'t cover', () => {
+    const houseFunds = HOUSE_BANKROLL / 2;
+    const covered = getBetLimits('high', 16, houseFunds).maxBet;
+
+    expect(checkBetLimits(covered, 'high', 16, houseFunds)).toBeNull();
+    expect(checkBetLimits(covered + 1, 'high', 16, houseFunds)).toMatchObject({ code: 'BANKROLL_LIMIT_EXCEEDED' });
+  });
+
+  it('holds a batch to the guard as a whole', () => {
+    const count = 10;
+    const batchMax = Math.floor(maxBet / count);
+
+    expect(checkBetLimits(batchMax, 'high', 16, HOUSE_BANKROLL, count)).toBeNull();
+    expect(worstCase(batchMax, 'high', 16) * count).toBeLessThanOrEqual(HOUSE_BANKROLL * BANKROLL_MAX_EXPOSURE);
+    expect(checkBetLimits(batchMax + 1, 'high', 16, HOUSE_BANKROLL, count)).toMatchObject({
+      code: 'BANKROLL_LIMIT_EXCEEDED',
+      field: 'betAmount'
+    });
+  });
+});
+
+describe('parseCurrencyLimits', () => {
+  const bets = {
+    low: { minBet: '0.001', maxBet: '100' },
+    medium: { minBet: '0.001', maxBet: '50' },
+    high: { minBet: '0.001', maxBet: '10' }
+  };
+
+  it('accepts limits in the documented shape', () => {
+    expect(parseCurrencyLimits(JSON.stringify({ bets, maxPayout: '1000' }))).toEqual({ bets, maxPayout: '1000' });
+  });
+
+  it('names the setting that is wrong', () => {
+    expect(() => parseCurrencyLimits('{bets')).toThrow('Invalid BET_LIMITS: not valid JSON');
+    expect(() => parseCurrencyLimits(JSON.stringify({ maxPayout: '1000' }))).toThrow('Invalid BET_LIMITS');
+    expect(() => parseCurrencyLimits(JSON.stringify({ bets: { low: bets.low }, maxPayout: '1000' })))
+      .toThrow('bets.medium is missing');
+    expect(() => parseCurrencyLimits(JSON.stringify({ bets: { ...bets, high: { minBet: '0.001', maxBet: 10 } }, maxPayout: '1000' })))
+      .toThrow('bets.high.maxBet');
+    expect(() => parseCurrencyLimits(JSON.stringify({ bets: { ...bets, low: { minBet: '5', maxBet: '1' } }, maxPayout: '1000' })))
+      .toThrow('bets.low.minBet must be above zero and at most maxBet');
+    expect(() => parseCurrencyLimits(JSON.stringify({ bets, maxPayout: '-1' }))).toThrow('maxPayout');
+  });
+});
@@ -0,0 +1,166 @@
+import { GameOptions, getMultipliers } from './provableFairness';
+import { CURRENCY, formatBaseUnits, MULTIPLIER_SCALE, parseBaseUnits, toBaseUnits, toMultiplierBps } from './units';
+import type { ErrorPayload } from '../../../shared/protocol';
+
+// Limits for one currency, amounts in whole tokens
+interface CurrencyLimits {
+  bets: Record<GameOptions['riskMode'], { minBet: string; maxBet: string }>;
+  maxPayout: string;
+}
+
+const DEFAULT_LIMITS: Record<string, CurrencyLimits> = {
+  SOL: {
+    bets: {
+      low: { minBet: '0.001', maxBet: '100' },
+      medium: { minBet: '0.001', maxBet: '50' },
+      high: { minBet: '0.001', maxBet: '10' }
+    },
+    maxPayout: '1000'
+  }
+};
+
+const RISK_MODES: GameOptions['riskMode'][] = ['low', 'medium', 'high'];
+
+// Checks BET_LIMITS against the CurrencyLimits shape, amounts must be strings in whole
+// tokens with a minimum no larger than the maximum. Throws naming the bad setting so the
+// server stops at startup instead of on the first bet.
+export function parseCurrencyLimits(json: string): CurrencyLimits {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid BET_LIMITS: ${reason}`);
+  };
+
+  let limits: unknown;
+
+  try {
+    limits = JSON.parse(json);
+  } catch {
+    return fail('not valid JSON');
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const amount = (value: unknown, name: string): number => {
+    const units = typeof value === 'string' ? parseBaseUnits(value, CURRENCY.decimals) : null;
+    return units ?? fail(`${name} must be a non-negative amount with at most ${CURRENCY.decimals} decimals, as a string`);
+  };
+
+  if (!isObject(limits) || !isObject(limits.bets)) {
+    return fail('expected {"bets":{"low":{"minBet":"...","maxBet":"..."},...},"maxPayout":"..."}');
+  }
+
+  for (const riskMode of RISK_MODES) {
+    const bet = limits.bets[riskMode];
+
+    if (!isObject(bet)) {
+      return fail(`bets.${riskMode} is missing`);
+    }
+
+    const minBet = amount(bet.minBet, `bets.${riskMode}.minBet`);
+    const maxBet = amount(bet.maxBet, `bets.${riskMode}.maxBet`);
+
+    if (minBet === 0 || minBet > maxBet) {
+      return fail(`bets.${riskMode}.minBet must be above zero and at most maxBet`);
+    }
+  }
+
+  if (amount(limits.maxPayout, 'maxPayout') === 0) {
+    return fail('maxPayout must be above zero');
+  }
+
+  return limits as unknown as CurrencyLimits;
+}
+
+// BET_LIMITS overrides the defaults with JSON in the CurrencyLimits shape,
+// it is required for currencies without defaults
+function loadCurrencyLimits(): CurrencyLimits {
+  const limits = process.env.BET_LIMITS ? parseCurrencyLimits(process.env.BET_LIMITS) : DEFAULT_LIMITS[CURRENCY.symbol];
+
+  if (!limits) {
+    throw new Error(`No bet limits configured for ${CURRENCY.symbol}, set BET_LIMITS`);
+  }
+
+  return limits;
+}
+
+const currencyLimits = loadCurrencyLimits();
+
+// Largest amount a single game may pay out, in base units
+export const MAX_PAYOUT = toBaseUnits(currencyLimits.maxPayout);
+
+// Funds the house starts with, its ledger winnings and losses are added on top
+export const HOUSE_BANKROLL = toBaseUnits(process.env.HOUSE_BANKROLL || '100000');
+
+// The worst-case payout of a play, all bets of a batch together, may be at most this
+// fraction of the house funds
+export const BANKROLL_MAX_EXPOSURE = parseFloat(process.env.BANKROLL_MAX_EXPOSURE || '0.01');
+
+// Effective limits for a table, in base units
+export interface BetLimits {
+  minBet: number;
+  maxBet: number;
+  maxPayout: number;
+}
+
+// Largest bet whose payout at the table's top multiplier stays within `cap`
+function maxBetForPayout(cap: number, riskMode: GameOptions['riskMode'], rows: number): number {
+  const maxMultiplierBps = toMultiplierBps(Math.max(...getMultipliers(riskMode, rows)));
+  return Math.max(0, Math.floor((cap * MULTIPLIER_SCALE) / maxMultiplierBps));
+}
+
+function bankrollCap(houseFunds: number): number {
+  return Math.floor(Math.max(0, houseFunds) * BANKROLL_MAX_EXPOSURE);
+}
+
+// Table maximum before the bankroll guard: the configured max bet, reduced so
+// the top multiplier never pays more than MAX_PAYOUT
+function tableMaxBet(riskMode: GameOptions['riskMode'], rows: number): number {
+  return Math.min(toBaseUnits(currencyLimits.bets[riskMode].maxBet), maxBetForPayout(MAX_PAYOUT, riskMode, rows));
+}
+
+export function getBetLimits(riskMode: GameOptions['riskMode'], rows: number, houseFunds: number): BetLimits {
+  return {
+    minBet: toBaseUnits(currencyLimits.bets[riskMode].minBet),
+    maxBet: Math.min(tableMaxBet(riskMode, rows), maxBetForPayout(bankrollCap(houseFunds), riskMode, rows)),
+    maxPayout: MAX_PAYOUT
+  };
+}
+
+// Error for a play of `count` bets outside the table's limits, or null when it may be
+// placed. Each bet is held to the table limits, and a batch is only covered when every
+// bet hitting the top multiplier stays within the bankroll guard.
+export function checkBetLimits(
+  betAmount: number,
+  riskMode: GameOptions['riskMode'],
+  rows: number,
+  houseFunds: number,
+  count: number = 1
+): ErrorPayload | null {
+  const limits = getBetLimits(riskMode, rows, houseFunds);
+  const tableMax = tableMaxBet(riskMode, rows);
+  const format = (amount: number) => `${formatBaseUnits(amount, CURRENCY.decimals)} ${CURRENCY.symbol}`;
+
+  if (betAmount < limits.minBet) {
+    return { code: 'BET_LIMIT_EXCEEDED', message: `Minimum bet is ${format(limits.minBet)}`, field: 'betAmount' };
+  }
+
+  if (betAmount > tableMax) {
+    return { code: 'BET_LIMIT_EXCEEDED', message: `Maximum bet is ${format(tableMax)}`, field: 'betAmount' };
+  }
+
+  if (betAmount > limits.maxBet) {
+    return { code: 'BANKROLL_LIMIT_EXCEEDED', message: `The house can cover bets up to ${format(limits.maxBet)} on this table`, field: 'betAmount' };
+  }
+
+  const batchMaxBet = Math.floor(maxBetForPayout(bankrollCap(houseFunds), riskMode, rows) / count);
+
+  if (betAmount > batchMaxBet) {
+    return {
+      code: 'BANKROLL_LIMIT_EXCEEDED',
+      message: `The house can cover ${count} bets of up to ${format(batchMaxBet)} on this table`,
+      field: 'betAmount'
+    };
+  }
+
+  return null;
+}
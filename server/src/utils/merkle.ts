@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+// Merkle tree hashing as in RFC 6962 (Certificate Transparency): leaves and nodes are
+// domain separated with a 0x00 / 0x01 prefix so a node can never pass as a leaf.
+// Hashes are hex strings.
+
+function sha256(...parts: Buffer[]): string {
+  return crypto.createHash('sha256').update(Buffer.concat(parts)).digest('hex');
+}
+
+export function leafHash(data: string): string {
+  return sha256(Buffer.from([0]), Buffer.from(data, 'hex'));
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256(Buffer.from([1]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex'));
+}
+
+// Largest power of two smaller than n
+function splitPoint(n: number): number {
+  let k = 1;
+
+  while (k * 2 < n) {
+    k *= 2;
+  }
+
+  return k;
+}
+
+// Root of a tree over leaf hashes
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    return sha256();
+  }
+
+  if (leaves.length === 1) {
+    return leaves[0];
+  }
+
+  const k = splitPoint(leaves.length);
+  return nodeHash(merkleRoot(leaves.slice(0, k)), merkleRoot(leaves.slice(k)));
+}
+
+// Sibling hashes from leaf `index` up to the root, bottom first
+export function inclusionProof(leaves: string[], index: number): string[] {
+  if (leaves.length <= 1) {
+    return [];
+  }
+
+  const k = splitPoint(leaves.length);
+
+  if (index < k) {
+    return [...inclusionProof(leaves.slice(0, k), index), merkleRoot(leaves.slice(k))];
+  }
+
+  return [...inclusionProof(leaves.slice(k), index - k), merkleRoot(leaves.slice(0, k))];
+}
@@ -0,0 +1,66 @@
+import { GameOptions, getMultipliers, SUPPORTED_ROWS } from './provableFairness';
+import { calculateTableOdds, HOUSE_EDGE } from './rtp';
+import { CURRENCY, MULTIPLIER_SCALE } from './units';
+import { BetLimits } from './limits';
+export const AVAILABLE_ROWS = SUPPORTED_ROWS;
+
+export const RISK_LEVELS: { id: GameOptions['riskMode']; name: string }[] = [
+  { id: 'low', name: 'Low' },
+  { id: 'medium', name: 'Medium' },
+  { id: 'high', name: 'High' }
+];
+
+// Full client configuration for a risk level, mirrors PlinkoConfig in app/types/plinko.ts
+export function buildPlinkoConfig(riskMode: GameOptions['riskMode'], rows: number, limits: BetLimits) {
+  const multipliers = getMultipliers(riskMode, rows);
+  const odds = calculateTableOdds(riskMode, rows);
+
+  return {
+    rows,
+    columns: rows + 2,
+    buckets: multipliers.length,
+    houseEdge: HOUSE_EDGE,
+    rtp: odds.rtp,
+
+    multipliers,
+    odds: odds.buckets,
+
+    // Amounts are integer base units, payouts round bet × multiplier down
+    currency: CURRENCY,
+    multiplierScale: MULTIPLIER_SCALE,
+    limits,
+
+    canvasWidth: 800,
+    canvasHeight: 600,
+    pegRadius: 4,
+    ballRadius: 7,
+    wallThickness: 10,
+    bucketHeight: 70,
+    bucketDividerWidth: 3,
+
+    gravity: { x: 0, y: 1.2 },
+    forceMagnitude: 0.01,
+    ballRestitution: 0.5,
+    ballFriction: 0.001,
+    ballFrictionAir: 0.0001,
+    ballDensity: 0.02,
+
+    ballColor: '#22ff88',
+    ballStrokeColor: '#ffffff',
+    ballStrokeWidth: 1,
+    fadeInterval: 800,
+    checkInterval: 250,
+
+    availableRows: AVAILABLE_ROWS,
+    riskLevels: RISK_LEVELS,
+
+    // Same thresholds PlinkoBoard uses to colour its buckets
+    bucketColors: [
+      { threshold: 10, color: '#ef4444' },
+      { threshold: 3, color: '#f97316' },
+      { threshold: 1, color: '#eab308' },
+      { threshold: 0.5, color: '#22c55e' },
+      { threshold: 0, color: '#a855f7' }
+    ]
+  };
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from '../storage/jsonFile';
+import { canonicalReceipt, Receipt, ReceiptFields, RECEIPT_VERSION } from '../../../shared/fairness';
+
+export type { Receipt, ReceiptFields } from '../../../shared/fairness';
+export { canonicalReceipt };
+
+// The ed25519 key receipts are signed with. RECEIPT_SIGNING_KEY takes a PKCS#8 PEM,
+// otherwise a key is generated on first start and kept in DATA_DIR so receipts stay
+// verifiable across restarts. In-memory servers use a throwaway key.
+function loadSigningKey(): crypto.KeyObject {
+  if (process.env.RECEIPT_SIGNING_KEY) {
+    const key = crypto.createPrivateKey(process.env.RECEIPT_SIGNING_KEY);
+
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('RECEIPT_SIGNING_KEY must be an ed25519 private key');
+    }
+
+    return key;
+  }
+
+  if (process.env.PLAYER_STORE === 'memory') {
+    return crypto.generateKeyPairSync('ed25519').privateKey;
+  }
+
+  const keyPath = path.join(DATA_DIR, 'receipt-signing-key.pem');
+
+  if (!fs.existsSync(keyPath)) {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.writeFileSync(keyPath, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 });
+  }
+
+  return crypto.createPrivateKey(fs.readFileSync(keyPath, 'utf8'));
+}
+
+const signingKey = loadSigningKey();
+
+// Raw 32-byte public key in base64, the last bytes of its SPKI encoding
+export const RECEIPT_PUBLIC_KEY = crypto.createPublicKey(signingKey)
+  .export({ format: 'der', type: 'spki' })
+  .subarray(-32)
+  .toString('base64');
+
+export function signReceipt(fields: ReceiptFields): Receipt {
+  const signature = crypto.sign(null, Buffer.from(canonicalReceipt(fields), 'utf8'), signingKey);
+  return { version: RECEIPT_VERSION, signature: signature.toString('base64') };
+}
@@ -0,0 +1,89 @@
+import { GameOptions, getMultipliers, RISK_MODES, SUPPORTED_ROWS } from './provableFairness';
+
+// Target house edge advertised to players, the RTP band is centred on it
+export const HOUSE_EDGE = 0.035;
+
+export const RTP_BAND = {
+  min: parseFloat(process.env.RTP_MIN || String(1 - HOUSE_EDGE - 0.005)),
+  max: parseFloat(process.env.RTP_MAX || String(1 - HOUSE_EDGE + 0.005))
+};
+
+export interface BucketOdds {
+  bucket: number;
+  probability: number;
+  multiplier: number;
+  contribution: number;
+}
+
+export interface TableOdds {
+  rows: number;
+  riskMode: GameOptions['riskMode'];
+  rtp: number;
+  houseEdge: number;
+  buckets: BucketOdds[];
+}
+
+function binomialCoefficient(n: number, k: number): number {
+  let result = 1;
+  
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  
+  return result;
+}
+
+// Probability of landing in each bucket: every row is a fair left/right bounce,
+// so bucket k (k right bounces) is hit with probability C(rows, k) / 2^rows
+export function bucketProbabilities(rows: number): number[] {
+  const total = Math.pow(2, rows);
+  const probabilities: number[] = [];
+  
+  for (let k = 0; k <= rows; k++) {
+    probabilities.push(binomialCoefficient(rows, k) / total);
+  }
+  
+  return probabilities;
+}
+
+// Exact expected return of a multiplier table and each bucket's share of it
+export function calculateTableOdds(riskMode: GameOptions['riskMode'], rows: number): TableOdds {
+  const multipliers = getMultipliers(riskMode, rows);
+  const probabilities = bucketProbabilities(rows);
+  
+  if (multipliers.length !== probabilities.length) {
+    throw new Error(`Multiplier table ${rows}/${riskMode} has ${multipliers.length} entries, expected ${probabilities.length}`);
+  }
+  
+  const buckets = probabilities.map((probability, bucket) => ({
+    bucket,
+    probability,
+    multiplier: multipliers[bucket],
+    contribution: probability * multipliers[bucket]
+  }));
+  
+  const rtp = buckets.reduce((sum, odds) => sum + odds.contribution, 0);
+  
+  return {
+    rows,
+    riskMode,
+    rtp,
+    houseEdge: 1 - rtp,
+    buckets
+  };
+}
+
+// Check every (rows, risk) table against the RTP band, throws listing the tables outside it
+export function validateMultiplierTables(band: { min: number; max: number } = RTP_BAND): TableOdds[] {
+  const tables = SUPPORTED_ROWS.flatMap(rows => RISK_MODES.map(riskMode => calculateTableOdds(riskMode, rows)));
+  const invalid = tables.filter(table => table.rtp < band.min || table.rtp > band.max);
+  
+  if (invalid.length > 0) {
+    const details = invalid
+      .map(table => `${table.rows} rows/${table.riskMode}: ${(table.rtp * 100).toFixed(3)}%`)
+      .join(', ');
+    throw new Error(`Multiplier tables outside RTP band ${band.min}-${band.max}: ${details}`);
+  }
+  
+  return tables;
+}
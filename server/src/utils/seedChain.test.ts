@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { createSeedChainDealer, seedAt, verifySeedChain } from './seedChain';
+import { hashServerSeed } from './provableFairness';
+import { leafHash, merkleRoot } from './merkle';
+import { MemorySeedChainStore } from '../storage/seedChains';
+
+const secret = crypto.randomBytes(32);
+
+describe('seedAt', () => {
+  it('hashes each seed down to the one before it and to the anchor', () => {
+    const tip = crypto.randomBytes(32).toString('hex');
+    const anchor = seedAt(tip, 5, 0);
+
+    expect(seedAt(tip, 5, 5)).toBe(tip);
+    expect(hashServerSeed(seedAt(tip, 5, 3))).toBe(seedAt(tip, 5, 2));
+    expect(verifySeedChain(seedAt(tip, 5, 4), 4, anchor)).toBe(true);
+    expect(verifySeedChain(seedAt(tip, 5, 4), 3, anchor)).toBe(false);
+  });
+});
+
+describe('createSeedChainDealer', () => {
+  it('gives every player a chain of their own', () => {
+    const dealer = createSeedChainDealer(new MemorySeedChainStore(), secret, { length: 5, count: 4 });
+    const alice = dealer.assign('alice');
+    const bob = dealer.assign('bob');
+
+    expect(alice.seedChain).toMatchObject({ index: 0, position: 1 });
+    expect(bob.seedChain).toMatchObject({ index: 1, position: 1 });
+    expect(bob.seedChain.anchor).not.toBe(alice.seedChain.anchor);
+    expect(verifySeedChain(alice.serverSeed, 1, alice.seedChain.anchor)).toBe(true);
+  });
+
+  it('moves a player down their own chain on rotation', () => {
+    const dealer = createSeedChainDealer(new MemorySeedChainStore(), secret, { length: 5, count: 4 });
+    const alice = dealer.assign('alice');
+    const bob = dealer.assign('bob');
+    const next = dealer.advance('bob', bob.seedChain);
+
+    expect(next.seedChain).toEqual({ ...bob.seedChain, position: 2 });
+    expect(hashServerSeed(next.serverSeed)).toBe(bob.serverSeed);
+
+    // Revealing bob's seeds says nothing about alice's chain
+    expect(verifySeedChain(next.serverSeed, 2, alice.seedChain.anchor)).toBe(false);
+    expect(dealer.current().assigned).toBe(2);
+  });
+
+  it('starts a new chain once the player has used theirs up', () => {
+    const dealer = createSeedChainDealer(new MemorySeedChainStore(), secret, { length: 2, count: 4 });
+    const first = dealer.assign('alice').seedChain;
+    const last = dealer.advance('alice', first).seedChain;
+    const next = dealer.advance('alice', last).seedChain;
+
+    expect(last.position).toBe(2);
+    expect(next).toMatchObject({ index: 1, position: 1 });
+  });
+
+  it('commits to every chain of a batch with one root', () => {
+    const dealer = createSeedChainDealer(new MemorySeedChainStore(), secret, { length: 3, count: 3 });
+    const chains = ['alice', 'bob', 'carol'].map(wallet => dealer.assign(wallet).seedChain);
+
+    expect(chains.every(chain => chain.root === chains[0].root)).toBe(true);
+    expect(merkleRoot(chains.map(chain => leafHash(chain.anchor)))).toBe(chains[0].root);
+    expect(dealer.proof(chains[2])).toMatchObject({ root: chains[0].root, index: 2, anchor: chains[2].anchor });
+
+    // The batch is used up, the next player gets the first chain of a new one
+    const next = dealer.assign('dave').seedChain;
+
+    expect(next.root).not.toBe(chains[0].root);
+    expect(next.index).toBe(0);
+  });
+});
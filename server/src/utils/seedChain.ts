@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { SeedChainInfo } from '../../../shared/protocol';
+import { DATA_DIR } from '../storage/jsonFile';
+import { SeedChainBatch, SeedChainStore } from '../storage/seedChains';
+import { inclusionProof, leafHash, merkleRoot } from './merkle';
+import { hashServerSeed } from './provableFairness';
+
+// Server seeds in each player's chain, the player moves to a new chain once all are revealed
+export const SEED_CHAIN_LENGTH = parseInt(process.env.SEED_CHAIN_LENGTH || '1000');
+// Chains generated and committed to at once
+export const SEED_CHAIN_COUNT = parseInt(process.env.SEED_CHAIN_COUNT || '1024');
+
+// Secret the chain tips are derived from. SEED_CHAIN_SECRET takes it as hex, otherwise
+// one is generated on first start and kept in its own file in DATA_DIR, next to the
+// receipt signing key. In-memory servers use a throwaway secret.
+export function loadSeedChainSecret(): Buffer {
+  if (process.env.SEED_CHAIN_SECRET) {
+    return Buffer.from(process.env.SEED_CHAIN_SECRET, 'hex');
+  }
+
+  if (process.env.PLAYER_STORE === 'memory') {
+    return crypto.randomBytes(32);
+  }
+
+  const secretPath = path.join(DATA_DIR, 'seed-chain-secret.key');
+
+  if (!fs.existsSync(secretPath)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.writeFileSync(secretPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+
+  return Buffer.from(fs.readFileSync(secretPath, 'utf8').trim(), 'hex');
+}
+
+// A SHA-256 hash chain of server seeds. The seed at position k is the secret tip hashed
+// length - k times, so hashServerSeed(seed k) = seed k - 1 and position 0 is the public
+// anchor. A player's seeds are used in increasing position, so revealing one only
+// exposes seeds that were revealed before it, and each hashes back down to the anchor.
+export function seedAt(tip: string, length: number, position: number): string {
+  let seed = tip;
+
+  for (let i = length; i > position; i--) {
+    seed = hashServerSeed(seed);
+  }
+
+  return seed;
+}
+
+// Where a chain's anchor sits in the Merkle tree of its batch
+export interface SeedChainProof {
+  root: string;
+  index: number;
+  anchor: string;
+  // Sibling hashes from the anchor's leaf up, see utils/merkle.ts
+  proof: string[];
+}
+
+/**
+ * Hands every player a chain of their own. Chains are generated SEED_CHAIN_COUNT at a
+ * time and committed to by the Merkle root over their anchors, which is logged and
+ * published before any of them is used, so the server can't swap a player's chain later.
+ */
+export function createSeedChainDealer(
+  store: SeedChainStore,
+  secret: Buffer,
+  { length = SEED_CHAIN_LENGTH, count = SEED_CHAIN_COUNT } = {}
+) {
+  function tip(batch: Pick<SeedChainBatch, 'id'>, index: number): string {
+    return crypto.createHmac('sha256', secret).update(`${batch.id}:${index}`).digest('hex');
+  }
+
+  function createBatch(): SeedChainBatch {
+    const id = crypto.randomBytes(16).toString('hex');
+    const anchors = Array.from({ length: count }, (_, index) => seedAt(tip({ id }, index), length, 0));
+    const batch = { id, root: merkleRoot(anchors.map(leafHash)), length, anchors, createdAt: Date.now() };
+
+    store.addBatch(batch);
+    console.log(`Seed chains committed to root ${batch.root}, ${count} chains of ${length} seeds`);
+
+    return batch;
+  }
+
+  function batch(): SeedChainBatch {
+    const current = store.currentBatch();
+    return current && store.nextIndex() < current.anchors.length ? current : createBatch();
+  }
+
+  function chainAt(chainBatch: SeedChainBatch, index: number, position: number) {
+    const seedChain: SeedChainInfo = {
+      root: chainBatch.root,
+      index,
+      anchor: chainBatch.anchors[index],
+      length: chainBatch.length,
+      position
+    };
+
+    return { serverSeed: seedAt(tip(chainBatch, index), chainBatch.length, position), seedChain };
+  }
+
+  // First seed of a new chain for the player
+  function assign(wallet: string): { serverSeed: string; seedChain: SeedChainInfo } {
+    const chainBatch = batch();
+    const index = store.nextIndex();
+
+    store.assign({ wallet, root: chainBatch.root, index });
+
+    return chainAt(chainBatch, index, 1);
+  }
+
+  return {
+    assign,
+
+    // The batch new chains come from, its root is what gets published
+    current() {
+      const { root, length, anchors, createdAt } = batch();
+      return { root, length, count: anchors.length, assigned: store.nextIndex(), createdAt };
+    },
+
+    // The seed after the player's current one, on a new chain once theirs is used up
+    advance(wallet: string, seedChain: SeedChainInfo): { serverSeed: string; seedChain: SeedChainInfo } {
+      const chainBatch = store.findBatch(seedChain.root);
+
+      if (!chainBatch || seedChain.position >= chainBatch.length) {
+        return assign(wallet);
+      }
+
+      return chainAt(chainBatch, seedChain.index, seedChain.position + 1);
+    },
+
+    proof(seedChain: SeedChainInfo): SeedChainProof | undefined {
+      const chainBatch = store.findBatch(seedChain.root);
+
+      if (!chainBatch) {
+        return undefined;
+      }
+
+      return {
+        root: chainBatch.root,
+        index: seedChain.index,
+        anchor: chainBatch.anchors[seedChain.index],
+        proof: inclusionProof(chainBatch.anchors.map(leafHash), seedChain.index)
+      };
+    }
+  };
+}
+
+export type SeedChainDealer = ReturnType<typeof createSeedChainDealer>;
+
+// Checks a revealed seed against the chain's anchor
+export { verifySeedChain } from './provableFairness';
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+// Sessions expire after this long without being resumed
+export const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || String(24 * 60 * 60 * 1000));
+
+// Issued after a signed login so a reconnecting socket can sign back in
+// without asking the wallet to sign another challenge
+export interface Session {
+  token: string;
+  wallet: string;
+  expiresAt: number;
+}
+
+export function createSession(wallet: string): Session {
+  return {
+    token: crypto.randomBytes(32).toString('hex'),
+    wallet,
+    expiresAt: Date.now() + SESSION_TTL_MS
+  };
+}
+
+// Sessions slide: every resume pushes the expiry forward again
+export function renewSession(session: Session): Session {
+  session.expiresAt = Date.now() + SESSION_TTL_MS;
+  return session;
+}
+
+export function isSessionExpired(session: Session): boolean {
+  return Date.now() > session.expiresAt;
+}
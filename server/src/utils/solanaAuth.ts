@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+
+// Challenges must be signed within this window
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// DER prefix that turns a raw 32-byte ed25519 public key into an SPKI key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface AuthChallenge {
+  wallet: string;
+  message: string;
+  expiresAt: number;
+}
+
+export function decodeBase58(value: string): Buffer {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+
+    if (digit === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+
+    // Multiply the little-endian byte array by 58 and add the digit
+    let carry = digit;
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading '1's encode leading zero bytes
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
+
+// Sign-in message the wallet is asked to sign, the nonce makes every challenge single use
+export function createChallenge(wallet: string): AuthChallenge {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+
+  return {
+    wallet,
+    message: [
+      'Plinko Incinerator wants you to sign in with your Solana account:',
+      wallet,
+      '',
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`
+    ].join('\n'),
+    expiresAt: issuedAt.getTime() + CHALLENGE_TTL_MS
+  };
+}
+
+// Check a base64 ed25519 signature of the challenge message against the wallet's public key
+export function verifyChallengeSignature(challenge: AuthChallenge, signature: string): boolean {
+  if (Date.now() > challenge.expiresAt) {
+    return false;
+  }
+
+  try {
+    const publicKeyBytes = decodeBase58(challenge.wallet);
+
+    if (publicKeyBytes.length !== 32) {
+      return false;
+    }
+
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKeyBytes]),
+      format: 'der',
+      type: 'spki'
+    });
+
+    return crypto.verify(null, Buffer.from(challenge.message, 'utf8'), publicKey, Buffer.from(signature, 'base64'));
+  } catch (error) {
+    console.error('Signature verification failed:', error);
+    return false;
+  }
+}
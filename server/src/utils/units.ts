@@ -0,0 +1,21 @@
+import { Currency, DEFAULT_CURRENCY, parseBaseUnits } from '../../../shared/units';
+
+// Amounts are integers in base units, the conversions are shared with the client
+export { calculatePayout, formatBaseUnits, MULTIPLIER_SCALE, parseBaseUnits, toMultiplierBps } from '../../../shared/units';
+
+export const CURRENCY: Currency = {
+  symbol: process.env.TOKEN_SYMBOL || DEFAULT_CURRENCY.symbol,
+  decimals: parseInt(process.env.TOKEN_DECIMALS || String(DEFAULT_CURRENCY.decimals))
+};
+
+// Convert a configured amount such as "1.5" to base units of CURRENCY, throws so a bad
+// setting stops the server at startup
+export function toBaseUnits(amount: string): number {
+  const units = parseBaseUnits(amount, CURRENCY.decimals);
+
+  if (units === null) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  return units;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBucket, legacyBucket, RngVersion } from './engine';
+import { KNOWN_ANSWER_VECTORS, knownAnswerMismatch } from './knownAnswers';
+import { LEGACY_MULTIPLIERS } from './multipliers';
+import * as node from './node';
+import * as webcrypto from './webcrypto';
+
+const SERVER_SEED = 'b6f8a3e1c0d94f2a7e5b3c1d0a9f8e7d6c5b4a39281706f5e4d3c2b1a0f9e8d7';
+
+describe('known-answer vectors', () => {
+  it('covers both RNG versions', () => {
+    expect(new Set(KNOWN_ANSWER_VECTORS.map(vector => vector.rngVersion))).toEqual(new Set(['v1', 'v2']));
+  });
+
+  it.each(KNOWN_ANSWER_VECTORS.map(vector => [`${vector.rngVersion} ${vector.rows}/${vector.riskMode} nonce ${vector.nonce}`, vector]))(
+    '%s',
+    async (_, vector) => {
+      const options = { rows: vector.rows, riskMode: vector.riskMode, rngVersion: vector.rngVersion };
+
+      expect(knownAnswerMismatch(vector, node.calculateGameResult(vector.serverSeed, vector.clientSeed, vector.nonce, options))).toBeNull();
+      expect(knownAnswerMismatch(vector, await webcrypto.calculateGameResult(vector.serverSeed, vector.clientSeed, vector.nonce, options))).toBeNull();
+    }
+  );
+
+  it('passes the built-in check on both adapters', async () => {
+    expect(node.checkKnownAnswers()).toEqual([]);
+    expect(await webcrypto.checkKnownAnswers()).toEqual([]);
+  });
+});
+
+describe('node and webcrypto adapters', () => {
+  it('produce the same games', async () => {
+    for (const rngVersion of ['v1', 'v2'] as RngVersion[]) {
+      for (const rows of [8, 12, 16]) {
+        for (let nonce = 0; nonce < 20; nonce++) {
+          const options = { rows, riskMode: 'high' as const, rngVersion };
+
+          expect(await webcrypto.calculateGameResult(SERVER_SEED, 'parity', nonce, options))
+            .toEqual(node.calculateGameResult(SERVER_SEED, 'parity', nonce, options));
+        }
+      }
+    }
+  });
+
+  it('hash server seeds and walk seed chains alike', async () => {
+    const next = node.hashServerSeed(SERVER_SEED);
+
+    expect(await webcrypto.hashServerSeed(SERVER_SEED)).toBe(next);
+    expect(node.verifySeedChain(SERVER_SEED, 2, node.hashServerSeed(next))).toBe(true);
+    expect(await webcrypto.verifySeedChain(SERVER_SEED, 2, node.hashServerSeed(next))).toBe(true);
+  });
+});
+
+describe('verifyGameResult', () => {
+  it('verifies untagged results as v1', async () => {
+    const options = { rows: 16, riskMode: 'medium' as const };
+    const { rngVersion, ...reported } = node.calculateGameResult(SERVER_SEED, 'legacy', 3, { ...options, rngVersion: 'v1' });
+
+    expect(rngVersion).toBe('v1');
+    expect(node.verifyGameResult(SERVER_SEED, 'legacy', 3, options, reported)).toBe(true);
+    expect(await webcrypto.verifyGameResult(SERVER_SEED, 'legacy', 3, options, reported)).toBe(true);
+    expect(node.verifyGameResult(SERVER_SEED, 'legacy', 3, options, { ...reported, finalMultiplier: 1000 })).toBe(false);
+  });
+});
+
+describe('buckets', () => {
+  it('counts right bounces in v2', () => {
+    expect(calculateBucket([1, 0, 1, 1, 0, 0, 0, 1])).toBe(4);
+  });
+
+  it('scales v1 paths onto the 17 legacy buckets', () => {
+    expect(legacyBucket(Array(16).fill(0))).toBe(0);
+    expect(legacyBucket(Array(16).fill(1))).toBe(LEGACY_MULTIPLIERS.low.length - 1);
+    expect(legacyBucket(Array(8).fill(1))).toBe(16);
+    expect(legacyBucket([1, 0, 1, 0, 1, 0, 1, 0])).toBe(8);
+  });
+});
@@ -0,0 +1,175 @@
+import { getMultipliers, LEGACY_MULTIPLIERS, RiskMode } from './multipliers';
+
+// The fairness math without any crypto dependency. Each game needs a few SHA-256 or
+// HMAC-SHA256 digests, listed by digestRequests; an adapter computes them (node.ts with
+// Node's crypto, webcrypto.ts with the browser's) and resultFromDigests turns them into
+// the game. Both adapters therefore produce identical results by construction.
+
+export interface ProvablyFairResult {
+  clientSeed: string;
+  serverSeed: string;
+  hashedServerSeed: string;
+  nonce: number;
+  gameResult: number;
+  path: number[];
+  finalMultiplier: number;
+  rngVersion: RngVersion;
+}
+
+// Random number generator versions. Old versions stay available so past games remain verifiable.
+// v1: sha256(serverSeed:clientSeed:nonce + row), consecutive nonces share most of their draws,
+//     paths scaled onto 17 buckets with the legacy tables
+// v2: byte cursor over HMAC-SHA256(serverSeed, clientSeed:nonce:round), one independent stream per nonce,
+//     rows + 1 buckets with the per-row tables
+export type RngVersion = 'v1' | 'v2';
+
+export const RNG_VERSIONS: RngVersion[] = ['v1', 'v2'];
+export const CURRENT_RNG_VERSION: RngVersion = 'v2';
+
+export interface GameOptions {
+  rows: number;
+  riskMode: RiskMode;
+  rngVersion?: RngVersion;
+}
+
+// A reported result to check, results without a version tag predate versioning
+export type ReportedResult = Omit<ProvablyFairResult, 'rngVersion'> & { rngVersion?: RngVersion };
+
+// A digest the adapter has to compute, messages and keys are UTF-8 strings
+export type DigestRequest =
+  | { algorithm: 'sha256'; message: string }
+  | { algorithm: 'hmac-sha256'; key: string; message: string };
+
+// How one row was decided: the bytes drawn, the float they make and the direction taken
+export interface RowDraw {
+  row: number;
+  bytes: number[];
+  value: number;
+  direction: 0 | 1;
+}
+
+const BYTES_PER_FLOAT = 4;
+const DIGEST_BYTES = 32;
+
+// Digests needed for one game, in the order resultFromDigests expects them
+export function digestRequests(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  rows: number,
+  rngVersion: RngVersion
+): DigestRequest[] {
+  if (rngVersion === 'v1') {
+    // One hash per row, on consecutive nonces
+    return Array.from({ length: rows }, (_, row) => ({
+      algorithm: 'sha256' as const,
+      message: `${serverSeed}:${clientSeed}:${nonce + row}`
+    }));
+  }
+
+  // Enough rounds of 32 bytes to draw 4 bytes per row
+  const rounds = Math.ceil((rows * BYTES_PER_FLOAT) / DIGEST_BYTES);
+
+  return Array.from({ length: rounds }, (_, round) => ({
+    algorithm: 'hmac-sha256' as const,
+    key: serverSeed,
+    message: `${clientSeed}:${nonce}:${round}`
+  }));
+}
+
+// v1 reads the first 4 bytes of each row's hash as a big-endian integer over 0xffffffff
+function v1Draws(digests: Uint8Array[], rows: number): Omit<RowDraw, 'direction'>[] {
+  return Array.from({ length: rows }, (_, row) => {
+    const bytes = Array.from(digests[row].slice(0, BYTES_PER_FLOAT));
+    const integer = bytes.reduce((total, byte) => total * 256 + byte, 0);
+
+    return { row, bytes, value: integer / 0xffffffff };
+  });
+}
+
+// v2 moves a cursor through the digests 4 bytes at a time and turns each group
+// into a float in [0, 1) as the sum of byte / 256^(j + 1)
+function v2Draws(digests: Uint8Array[], rows: number): Omit<RowDraw, 'direction'>[] {
+  const stream: number[] = [];
+  digests.forEach(digest => stream.push(...Array.from(digest)));
+
+  return Array.from({ length: rows }, (_, row) => {
+    const bytes = stream.slice(row * BYTES_PER_FLOAT, (row + 1) * BYTES_PER_FLOAT);
+    let value = 0;
+
+    for (let j = 0; j < BYTES_PER_FLOAT; j++) {
+      value += bytes[j] / Math.pow(256, j + 1);
+    }
+
+    return { row, bytes, value };
+  });
+}
+
+// Every row's draw, 0 is a bounce to the left and 1 to the right
+export function rowDraws(digests: Uint8Array[], rows: number, rngVersion: RngVersion): RowDraw[] {
+  const draws = rngVersion === 'v1' ? v1Draws(digests, rows) : v2Draws(digests, rows);
+  return draws.map(draw => ({ ...draw, direction: draw.value < 0.5 ? 0 : 1 }));
+}
+
+// Every right bounce moves the ball one bucket to the right, so a board
+// with n rows has n + 1 buckets and the bucket index is the number of rights
+export function calculateBucket(path: number[]): number {
+  return path.reduce((rights, direction) => rights + direction, 0);
+}
+
+// How v1 games were scored: the path's end position, from -rows to +rows, scaled onto
+// 17 buckets whatever the number of rows
+export function legacyBucket(path: number[]): number {
+  const totalBins = LEGACY_MULTIPLIERS.low.length;
+  const position = path.reduce((total, direction) => total + (direction === 0 ? -1 : 1), 0);
+  const scaleFactor = totalBins / (path.length * 2);
+
+  return Math.min(Math.floor((position + path.length) * scaleFactor), totalBins - 1);
+}
+
+// Multiplier table a game of this version pays from
+export function multipliersFor(riskMode: RiskMode, rows: number, rngVersion: RngVersion): number[] {
+  return rngVersion === 'v1' ? LEGACY_MULTIPLIERS[riskMode] : getMultipliers(riskMode, rows);
+}
+
+// Assemble a game from the digests listed by digestRequests and the hash of the server seed
+export function resultFromDigests(
+  serverSeed: string,
+  hashedServerSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions,
+  digests: Uint8Array[]
+): ProvablyFairResult {
+  const rngVersion = options.rngVersion || CURRENT_RNG_VERSION;
+  const path = rowDraws(digests, options.rows, rngVersion).map(draw => draw.direction);
+  const gameResult = rngVersion === 'v1' ? legacyBucket(path) : calculateBucket(path);
+
+  return {
+    clientSeed,
+    serverSeed,
+    hashedServerSeed,
+    nonce,
+    gameResult,
+    path,
+    finalMultiplier: multipliersFor(options.riskMode, options.rows, rngVersion)[gameResult],
+    rngVersion
+  };
+}
+
+// Version a reported result was produced with, untagged results are v1
+export function reportedRngVersion(options: GameOptions, reported: ReportedResult): RngVersion {
+  return options.rngVersion || reported.rngVersion || 'v1';
+}
+
+export function resultsMatch(expected: ProvablyFairResult, reported: ReportedResult): boolean {
+  return (
+    expected.gameResult === reported.gameResult &&
+    expected.finalMultiplier === reported.finalMultiplier &&
+    JSON.stringify(expected.path) === JSON.stringify(reported.path)
+  );
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
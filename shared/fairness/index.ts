@@ -0,0 +1,6 @@
+// Crypto-free parts of the fairness engine. Import './node' on the server and
+// './webcrypto' in the browser for hashing, game results and verification.
+export * from './engine';
+export * from './multipliers';
+export * from './knownAnswers';
+export * from './receipt';
@@ -0,0 +1,34 @@
+import vectors from './vectors.json';
+import { GameOptions, ProvablyFairResult } from './engine';
+
+// Published known-answer vectors: fixed seeds and the game each RNG version must
+// produce for them. Any verifier, including a player's own, can be checked against
+// these before it is trusted with real games.
+export interface KnownAnswerVector extends Required<GameOptions> {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: number;
+  expected: Pick<ProvablyFairResult, 'hashedServerSeed' | 'path' | 'gameResult' | 'finalMultiplier'>;
+}
+
+export const KNOWN_ANSWER_VECTORS = vectors as KnownAnswerVector[];
+
+// Describe how a computed result differs from its vector, null when it matches
+export function knownAnswerMismatch(vector: KnownAnswerVector, actual: ProvablyFairResult): string | null {
+  const { expected } = vector;
+  const label = `${vector.rngVersion} ${vector.rows}/${vector.riskMode} nonce ${vector.nonce}`;
+
+  if (actual.hashedServerSeed !== expected.hashedServerSeed) {
+    return `${label}: hashed server seed ${actual.hashedServerSeed}, expected ${expected.hashedServerSeed}`;
+  }
+
+  if (JSON.stringify(actual.path) !== JSON.stringify(expected.path)) {
+    return `${label}: path ${actual.path.join('')}, expected ${expected.path.join('')}`;
+  }
+
+  if (actual.gameResult !== expected.gameResult || actual.finalMultiplier !== expected.finalMultiplier) {
+    return `${label}: bucket ${actual.gameResult} at ${actual.finalMultiplier}x, expected ${expected.gameResult} at ${expected.finalMultiplier}x`;
+  }
+
+  return null;
+}
@@ -0,0 +1,44 @@
+export type RiskMode = 'low' | 'medium' | 'high';
+
+// Multiplier tables indexed by rows, then risk mode. A board with n rows has n + 1 buckets
+// and the bucket index is the number of right bounces, so each table has rows + 1 entries.
+export const MULTIPLIERS: Record<number, Record<RiskMode, number[]>> = {
+  8: {
+    low: [5.6, 2.1, 1.05, 1, 0.45, 1, 1.05, 2.1, 5.6],
+    medium: [13, 3, 1.25, 0.7, 0.35, 0.7, 1.25, 3, 13],
+    high: [29, 4, 1.45, 0.3, 0.15, 0.3, 1.45, 4, 29]
+  },
+  12: {
+    low: [10, 3, 1.6, 1.4, 1, 1, 0.5, 1, 1, 1.4, 1.6, 3, 10],
+    medium: [33, 11, 4, 2, 1, 0.6, 0.3, 0.6, 1, 2, 4, 11, 33],
+    high: [170, 24, 8.1, 2, 0.6, 0.2, 0.2, 0.2, 0.6, 2, 8.1, 24, 170]
+  },
+  16: {
+    low: [16, 9, 2, 1.4, 1.4, 1.2, 1, 1, 0.5, 1, 1, 1.2, 1.4, 1.4, 2, 9, 16],
+    medium: [110, 41, 10, 5, 3, 1.5, 0.9, 0.5, 0.3, 0.5, 0.9, 1.5, 3, 5, 10, 41, 110],
+    high: [1000, 130, 24, 8, 4, 2, 0.2, 0.2, 0.2, 0.2, 0.2, 2, 4, 8, 24, 130, 1000]
+  }
+};
+
+// Tables v1 games were settled with: 17 buckets whatever the number of rows, see
+// legacyBucket in engine.ts. Only used to verify those games.
+export const LEGACY_MULTIPLIERS: Record<RiskMode, number[]> = {
+  low: [1.5, 1.2, 1.1, 1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.6, 0.7, 0.8, 0.9, 1, 1.1, 1.2, 1.5],
+  medium: [5, 3, 2, 1.5, 1, 0.5, 0.3, 0.2, 0.1, 0.2, 0.3, 0.5, 1, 1.5, 2, 3, 5],
+  high: [110, 41, 10, 5, 3, 2, 1.5, 0.5, 0.3, 0.5, 1.5, 2, 3, 5, 10, 41, 110]
+};
+
+export const SUPPORTED_ROWS = Object.keys(MULTIPLIERS).map(Number);
+export const RISK_MODES: RiskMode[] = ['low', 'medium', 'high'];
+// Rows of a table when a request doesn't pick any
+export const DEFAULT_ROWS = 16;
+
+export function getMultipliers(riskMode: RiskMode, rows: number): number[] {
+  const tables = MULTIPLIERS[rows];
+
+  if (!tables) {
+    throw new Error(`Unsupported number of rows: ${rows}`);
+  }
+
+  return tables[riskMode];
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import {
+  DigestRequest,
+  digestRequests,
+  GameOptions,
+  ProvablyFairResult,
+  ReportedResult,
+  reportedRngVersion,
+  resultFromDigests,
+  resultsMatch,
+  CURRENT_RNG_VERSION
+} from './engine';
+import { KNOWN_ANSWER_VECTORS, knownAnswerMismatch } from './knownAnswers';
+import { canonicalReceipt, Receipt, ReceiptFields, RECEIPT_VERSION } from './receipt';
+
+// Synchronous verifier on Node's crypto module, used by the server
+
+// DER prefix that turns a raw 32-byte ed25519 public key into an SPKI key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function digest(request: DigestRequest): Uint8Array {
+  const hash = request.algorithm === 'sha256'
+    ? crypto.createHash('sha256')
+    : crypto.createHmac('sha256', request.key);
+
+  return hash.update(request.message).digest();
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return crypto.createHash('sha256').update(serverSeed).digest('hex');
+}
+
+export function calculateGameResult(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions
+): ProvablyFairResult {
+  const rngVersion = options.rngVersion || CURRENT_RNG_VERSION;
+  const digests = digestRequests(serverSeed, clientSeed, nonce, options.rows, rngVersion).map(digest);
+
+  return resultFromDigests(serverSeed, hashServerSeed(serverSeed), clientSeed, nonce, { ...options, rngVersion }, digests);
+}
+
+export function verifyGameResult(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions,
+  reportedResult: ReportedResult
+): boolean {
+  const rngVersion = reportedRngVersion(options, reportedResult);
+  const expectedResult = calculateGameResult(serverSeed, clientSeed, nonce, { ...options, rngVersion });
+
+  return resultsMatch(expectedResult, reportedResult);
+}
+
+// Check that a revealed seed sits at `position` of the hash chain committed to by `anchor`
+export function verifySeedChain(serverSeed: string, position: number, anchor: string): boolean {
+  let seed = serverSeed;
+
+  for (let i = 0; i < position; i++) {
+    seed = hashServerSeed(seed);
+  }
+
+  return seed === anchor;
+}
+
+// Check a receipt against the server's base64 raw ed25519 public key
+export function verifyReceipt(fields: ReceiptFields, receipt: Receipt, publicKey: string): boolean {
+  if (receipt.version !== RECEIPT_VERSION) {
+    return false;
+  }
+
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'base64')]),
+    format: 'der',
+    type: 'spki'
+  });
+
+  return crypto.verify(null, Buffer.from(canonicalReceipt(fields), 'utf8'), key, Buffer.from(receipt.signature, 'base64'));
+}
+
+// Run every known-answer vector, returns the mismatches
+export function checkKnownAnswers(): string[] {
+  return KNOWN_ANSWER_VECTORS
+    .map(vector => knownAnswerMismatch(vector, calculateGameResult(vector.serverSeed, vector.clientSeed, vector.nonce, vector)))
+    .filter((mismatch): mismatch is string => mismatch !== null);
+}
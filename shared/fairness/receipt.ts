@@ -0,0 +1,49 @@
+import { RiskMode } from './multipliers';
+
+// Signed receipts let a player prove to anyone that the server issued a result.
+// The server signs canonicalReceipt(fields) with its ed25519 key, both adapters
+// check the signature against the public key from /api/plinko/receipts/public-key.
+
+export const RECEIPT_VERSION = 1;
+
+// Amounts are integer base units
+export interface ReceiptFields {
+  gameId: string;
+  wallet: string;
+  hashedServerSeed: string;
+  clientSeed: string;
+  nonce: number;
+  riskMode: RiskMode;
+  rows: number;
+  path: number[];
+  finalMultiplier: number;
+  betAmount: number;
+  winAmount: number;
+  timestamp: number;
+}
+
+export interface Receipt {
+  version: number;
+  // Base64 ed25519 signature of the canonical receipt
+  signature: string;
+}
+
+// The exact bytes that are signed: the fields in a fixed order, so extra or
+// reordered properties in a result payload never change the message
+export function canonicalReceipt(fields: ReceiptFields): string {
+  return JSON.stringify([
+    `plinko-receipt:v${RECEIPT_VERSION}`,
+    fields.gameId,
+    fields.wallet,
+    fields.hashedServerSeed,
+    fields.clientSeed,
+    fields.nonce,
+    fields.riskMode,
+    fields.rows,
+    fields.path,
+    fields.finalMultiplier,
+    fields.betAmount,
+    fields.winAmount,
+    fields.timestamp
+  ]);
+}
@@ -0,0 +1,186 @@
+import {
+  DigestRequest,
+  digestRequests,
+  GameOptions,
+  ProvablyFairResult,
+  ReportedResult,
+  reportedRngVersion,
+  resultFromDigests,
+  resultsMatch,
+  rowDraws,
+  RowDraw,
+  toHex,
+  CURRENT_RNG_VERSION
+} from './engine';
+import { KNOWN_ANSWER_VECTORS, knownAnswerMismatch } from './knownAnswers';
+import { canonicalReceipt, Receipt, ReceiptFields, RECEIPT_VERSION } from './receipt';
+import type { AuditProof } from '../protocol';
+
+// Asynchronous verifier on WebCrypto, runs in the browser without contacting the server
+
+const encoder = new TextEncoder();
+
+async function digest(request: DigestRequest): Promise<Uint8Array> {
+  if (request.algorithm === 'sha256') {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(request.message)));
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(request.key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(request.message)));
+}
+
+export async function hashServerSeed(serverSeed: string): Promise<string> {
+  return toHex(await digest({ algorithm: 'sha256', message: serverSeed }));
+}
+
+async function gameDigests(serverSeed: string, clientSeed: string, nonce: number, options: GameOptions): Promise<Uint8Array[]> {
+  const rngVersion = options.rngVersion || CURRENT_RNG_VERSION;
+  return Promise.all(digestRequests(serverSeed, clientSeed, nonce, options.rows, rngVersion).map(digest));
+}
+
+export async function calculateGameResult(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions
+): Promise<ProvablyFairResult> {
+  const rngVersion = options.rngVersion || CURRENT_RNG_VERSION;
+  const [hashedServerSeed, digests] = await Promise.all([
+    hashServerSeed(serverSeed),
+    gameDigests(serverSeed, clientSeed, nonce, { ...options, rngVersion })
+  ]);
+
+  return resultFromDigests(serverSeed, hashedServerSeed, clientSeed, nonce, { ...options, rngVersion }, digests);
+}
+
+// The bytes, float and direction behind each row, for showing a game step by step
+export async function calculateRowDraws(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions
+): Promise<RowDraw[]> {
+  const rngVersion = options.rngVersion || CURRENT_RNG_VERSION;
+  return rowDraws(await gameDigests(serverSeed, clientSeed, nonce, { ...options, rngVersion }), options.rows, rngVersion);
+}
+
+export async function verifyGameResult(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  options: GameOptions,
+  reportedResult: ReportedResult
+): Promise<boolean> {
+  const rngVersion = reportedRngVersion(options, reportedResult);
+  const expectedResult = await calculateGameResult(serverSeed, clientSeed, nonce, { ...options, rngVersion });
+
+  return resultsMatch(expectedResult, reportedResult);
+}
+
+// Check that a revealed seed sits at `position` of the hash chain committed to by `anchor`
+export async function verifySeedChain(serverSeed: string, position: number, anchor: string): Promise<boolean> {
+  let seed = serverSeed;
+
+  for (let i = 0; i < position; i++) {
+    seed = await hashServerSeed(seed);
+  }
+
+  return seed === anchor;
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+// Check a receipt against the server's base64 raw ed25519 public key. Needs a
+// browser with WebCrypto Ed25519 support, older ones reject the key import.
+export async function verifyReceipt(fields: ReceiptFields, receipt: Receipt, publicKey: string): Promise<boolean> {
+  if (receipt.version !== RECEIPT_VERSION) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey('raw', fromBase64(publicKey), { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, fromBase64(receipt.signature), encoder.encode(canonicalReceipt(fields)));
+}
+
+function fromHex(value: string): Uint8Array {
+  return Uint8Array.from(value.match(/../g) || [], byte => parseInt(byte, 16));
+}
+
+// Merkle hashes as in server/src/utils/merkle.ts: SHA-256 over a 0x00 (leaf) or
+// 0x01 (node) prefix and the raw bytes of the hex hashes
+async function merkleHash(prefix: number, ...hashes: string[]): Promise<string> {
+  const bytes = new Uint8Array(1 + hashes.length * 32);
+  bytes[0] = prefix;
+  hashes.forEach((hash, index) => bytes.set(fromHex(hash), 1 + index * 32));
+
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+}
+
+// Check that `leaf` sits at `index` of the tree of `size` leaves with this root (RFC 9162 2.1.3.2)
+async function verifyInclusion(leaf: string, index: number, size: number, proof: string[], root: string): Promise<boolean> {
+  if (index >= size) {
+    return false;
+  }
+
+  let fn = index;
+  let sn = size - 1;
+  let hash = leaf;
+
+  for (const sibling of proof) {
+    if (sn === 0) {
+      return false;
+    }
+
+    if (fn % 2 === 1 || fn === sn) {
+      hash = await merkleHash(1, sibling, hash);
+
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      hash = await merkleHash(1, hash, sibling);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && hash === root;
+}
+
+// Check an audit proof from the server end to end: the record's hash over its receipt,
+// its leaf, and the path from the leaf to the published root. With the bet's fields, the
+// record must also hold that bet's receipt.
+export async function verifyAuditProof(audit: AuditProof, fields?: ReceiptFields): Promise<boolean> {
+  const { record, leaf, root, proof } = audit;
+
+  if (fields && canonicalReceipt(fields) !== record.receipt) {
+    return false;
+  }
+
+  const hash = toHex(await digest({ algorithm: 'sha256', message: `${record.prevHash}\n${record.receipt}` }));
+
+  if (hash !== record.hash || (await merkleHash(0, hash)) !== leaf) {
+    return false;
+  }
+
+  return verifyInclusion(leaf, record.sequence, root.size, proof, root.root);
+}
+
+// Run every known-answer vector, returns the mismatches
+export async function checkKnownAnswers(): Promise<string[]> {
+  const mismatches = await Promise.all(KNOWN_ANSWER_VECTORS.map(async vector =>
+    knownAnswerMismatch(vector, await calculateGameResult(vector.serverSeed, vector.clientSeed, vector.nonce, vector))
+  ));
+
+  return mismatches.filter((mismatch): mismatch is string => mismatch !== null);
+}
@@ -0,0 +1,356 @@
+import { Receipt, RiskMode, RngVersion } from '../fairness';
+
+// The socket.io events between the game server and the web client. Both sides
+// type their Server / Socket with these maps, so a renamed event or a changed
+// payload fails to compile on whichever side was not updated.
+
+// Bumped on every incompatible change to the events below. Clients send theirs in
+// the handshake and the server refuses other versions with PROTOCOL_MISMATCH.
+export const PROTOCOL_VERSION = 1;
+
+export interface HandshakeAuth {
+  protocolVersion: number;
+}
+
+// Error codes sent in game:error, auth:error and REST error bodies. The UPSTREAM_ ones
+// only come from the Next API routes when the game server can't answer, SERVER_ONLY and
+// ROUTE_NOT_FOUND from their in-process engine (PLINKO_ENGINE=embedded).
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_BET_AMOUNT'
+  | 'INVALID_RISK_MODE'
+  | 'INVALID_ROWS'
+  | 'INVALID_CLIENT_SEED'
+  | 'INVALID_SERVER_SEED'
+  | 'INVALID_NONCE'
+  | 'INVALID_RNG_VERSION'
+  | 'INVALID_RESULT'
+  | 'INVALID_WALLET'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_GAME_ID'
+  | 'INVALID_BET_ID'
+  | 'INVALID_BATCH_SIZE'
+  | 'INVALID_AUTOBET'
+  | 'AUTOBET_RUNNING'
+  | 'INSUFFICIENT_BALANCE'
+  | 'BET_LIMIT_EXCEEDED'
+  | 'BANKROLL_LIMIT_EXCEEDED'
+  | 'NOT_AUTHENTICATED'
+  | 'INVALID_SESSION'
+  | 'PROTOCOL_MISMATCH'
+  | 'GAME_NOT_FOUND'
+  | 'AUDIT_PENDING'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'SERVER_ONLY'
+  | 'ROUTE_NOT_FOUND';
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  field?: string;
+}
+
+// Data of the connect_error a client gets when its protocol version is refused
+export interface ProtocolMismatch extends ErrorPayload {
+  code: 'PROTOCOL_MISMATCH';
+  serverVersion: number;
+}
+
+// Amounts everywhere are integer base units of this currency
+export interface Currency {
+  symbol: string;
+  decimals: number;
+}
+
+// Public part of the player's hash chain the server seeds are drawn from. Each seed
+// hashes to the one before it, and position 0 is the anchor, committed up front as
+// leaf `index` of the Merkle root over its batch of chains.
+export interface SeedChainInfo {
+  root: string;
+  index: number;
+  anchor: string;
+  length: number;
+  position: number;
+}
+
+// A settled game as recorded in the server's ledger
+export interface GameHistoryEntry {
+  gameId: string;
+  wallet: string;
+  hashedServerSeed: string;
+  clientSeed: string;
+  nonce: number;
+  riskMode: RiskMode;
+  rows: number;
+  finalMultiplier: number;
+  path: number[];
+  rngVersion: RngVersion;
+  betAmount: number;
+  winAmount: number;
+  balance: number;
+  timestamp: number;
+}
+
+// A game as sent when it settles. The server seed stays secret until it is rotated
+// and revealed with game:reveal-seed.
+export interface GameResult {
+  gameId: string;
+  // Idempotency key the play was sent with, absent for autobet bets
+  betId?: string;
+  wallet: string;
+  clientSeed: string;
+  hashedServerSeed: string;
+  nonce: number;
+  gameResult: number;
+  path: number[];
+  finalMultiplier: number;
+  riskMode: RiskMode;
+  rows: number;
+  rngVersion: RngVersion;
+  betAmount: number;
+  winAmount: number;
+  balance: number;
+  timestamp: number;
+  // Server signature over the result, see shared/fairness/receipt.ts
+  receipt: Receipt;
+}
+
+export interface BatchResult {
+  betId?: string;
+  results: GameResult[];
+  balance: number;
+}
+
+// A game settled while the socket was away, replayed with game:missed-results after a resume
+export interface MissedResult extends GameHistoryEntry {
+  gameResult: number;
+  receipt: Receipt;
+}
+
+export interface PlayRequest {
+  // Client-generated idempotency key, a repeated key gets the original answer
+  betId?: string;
+  betAmount: number;
+  riskMode?: RiskMode;
+  rows?: number;
+}
+
+export interface PlayBatchRequest extends PlayRequest {
+  count: number;
+}
+
+// Answer to a play, sent through the socket.io acknowledgement
+export type PlayAck<T> = { ok: true; result: T } | { ok: false; error: ErrorPayload };
+
+// Server-side autobet
+export interface AutobetStrategy {
+  action: 'reset' | 'increase';
+  percent: number;
+}
+
+export interface AutobetSettings {
+  betAmount: number;
+  riskMode: RiskMode;
+  rows: number;
+  // 0 keeps betting until a stop condition is met or the run is stopped
+  count: number;
+  onWin: AutobetStrategy;
+  onLoss: AutobetStrategy;
+  stopOnProfit?: number;
+  stopOnLoss?: number;
+  stopOnMultiplier?: number;
+}
+
+export type AutobetStopReason = 'completed' | 'profit' | 'loss' | 'multiplier' | 'cancelled' | 'error';
+
+// Sent with autobet:started, autobet:progress and autobet:stopped
+export interface AutobetStatus {
+  settings: AutobetSettings;
+  betsPlayed: number;
+  profit: number;
+  currentBet: number;
+  result?: GameResult;
+  reason?: AutobetStopReason;
+  error?: ErrorPayload;
+}
+
+// Deposits, payouts and incineration credits add to the player's balance, bets and withdrawals
+// take from it, see accountsFor in server/src/storage/ledger.ts for the other side of each
+export type LedgerEntryType = 'deposit' | 'bet' | 'payout' | 'incineration' | 'withdrawal';
+
+// The game a bet or payout belongs to, enough to recompute it once the seed is revealed
+export interface LedgerGameRef {
+  gameId: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  riskMode: RiskMode;
+  rows: number;
+  multiplier: number;
+  path: number[];
+  rngVersion: RngVersion;
+}
+
+// One debit/credit entry of the server's append-only ledger
+export interface LedgerEntry {
+  id: string;
+  sequence: number;
+  wallet: string;
+  type: LedgerEntryType;
+  debit: string;
+  credit: string;
+  // Integer base units
+  amount: number;
+  // Player balance after this entry
+  balance: number;
+  game?: LedgerGameRef;
+  timestamp: number;
+}
+
+// One settled bet. Each record hashes the one before it, so editing or dropping a
+// past bet changes every hash after it and no longer matches the published roots.
+export interface AuditRecord {
+  // Position in the log, also the record's leaf index in the Merkle tree
+  sequence: number;
+  gameId: string;
+  wallet: string;
+  // The bet's canonical receipt, the same message its signature covers
+  receipt: string;
+  prevHash: string;
+  hash: string;
+  timestamp: number;
+}
+
+// Merkle root over the first `size` records, published periodically
+export interface AuditRoot {
+  size: number;
+  root: string;
+  // Hash of the last record covered
+  headHash: string;
+  timestamp: number;
+}
+
+export interface AuditProof {
+  record: AuditRecord;
+  leaf: string;
+  root: AuditRoot;
+  // Sibling hashes from the leaf up, see server/src/utils/merkle.ts
+  proof: string[];
+}
+
+// A seed pair no longer used for new bets, see server/src/storage/seedHistory.ts.
+// Changing the client seed retires the pair while the server seed stays secret, it is
+// filled in once that is rotated.
+export interface SeedPairRecord {
+  id: string;
+  wallet: string;
+  hashedServerSeed: string;
+  serverSeed?: string;
+  seedChain: SeedChainInfo;
+  clientSeed: string;
+  // Inclusive, missing when no bet was placed with the pair
+  nonceRange?: { first: number; last: number };
+  betCount: number;
+  retiredAt: number;
+  revealedAt?: number;
+}
+
+// GET /api/plinko/seeds/history, newest first
+export interface SeedHistoryPage {
+  wallet: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  items: SeedPairRecord[];
+}
+
+// GET /api/plinko/bets/:gameId, a settled wallet bet or demo drop as shown on its
+// permalink. The server seed is only included once it has been revealed.
+export interface BetDetails {
+  gameId: string;
+  // Missing on demo drops, which belong to no wallet
+  wallet?: string;
+  betAmount: number;
+  winAmount: number;
+  currency: Currency;
+  riskMode: RiskMode;
+  rows: number;
+  finalMultiplier: number;
+  gameResult: number;
+  path: number[];
+  nonce: number;
+  clientSeed: string;
+  hashedServerSeed: string;
+  serverSeed?: string;
+  rngVersion: RngVersion;
+  timestamp: number;
+  // Same receipt as the one sent when the bet settled, missing on demo drops
+  receipt?: Receipt;
+  // A free REST game, nothing was wagered or paid out
+  demo?: boolean;
+}
+
+export interface AuthSuccess {
+  wallet: string;
+  // Sent back with auth:resume to sign in again without a signature
+  sessionToken: string;
+  expiresAt: number;
+}
+
+// The account of the signed-in wallet, sent after every sign-in
+export interface GameInit {
+  hashedServerSeed: string;
+  seedChain: SeedChainInfo;
+  clientSeed: string;
+  nonce: number;
+  balance: number;
+  currency: Currency;
+  history: GameHistoryEntry[];
+}
+
+// A seed change, only the parts that changed are set
+export interface NewSeed {
+  hashedServerSeed?: string;
+  seedChain?: SeedChainInfo;
+  clientSeed?: string;
+}
+
+export interface RevealedSeed {
+  serverSeed: string;
+  seedChain: SeedChainInfo;
+}
+
+export interface ClientToServerEvents {
+  // Sign-in with Solana: ask for a message to sign, then send the signature
+  'auth:request-challenge': (data: { wallet: string }) => void;
+  'auth:login': (data: { signature: string }) => void;
+  'auth:resume': (data: { sessionToken: string; lastGameId?: string }) => void;
+  // Answered through the acknowledgement, or with game:result / game:batch-result without one
+  'game:play': (data: PlayRequest, ack: (response: PlayAck<GameResult>) => void) => void;
+  'game:play-batch': (data: PlayBatchRequest, ack: (response: PlayAck<BatchResult>) => void) => void;
+  'autobet:start': (settings: AutobetSettings) => void;
+  'autobet:stop': () => void;
+  'game:new-server-seed': () => void;
+  'game:new-client-seed': (data: { clientSeed?: string }) => void;
+  // Pass the smallest sequence received as `before` to page back
+  'ledger:history': (data: { limit?: number; before?: number }) => void;
+}
+
+export interface ServerToClientEvents {
+  'auth:challenge': (data: { message: string }) => void;
+  'auth:success': (data: AuthSuccess) => void;
+  'auth:error': (error: ErrorPayload) => void;
+  'game:init': (data: GameInit) => void;
+  'game:missed-results': (data: { results: MissedResult[] }) => void;
+  'game:result': (result: GameResult) => void;
+  'game:batch-result': (batch: BatchResult) => void;
+  'game:error': (error: ErrorPayload) => void;
+  'game:new-seed': (data: NewSeed) => void;
+  'game:reveal-seed': (data: RevealedSeed) => void;
+  'autobet:started': (status: AutobetStatus) => void;
+  'autobet:progress': (status: AutobetStatus) => void;
+  'autobet:stopped': (status: AutobetStatus) => void;
+  'ledger:history': (data: { entries: LedgerEntry[] }) => void;
+}
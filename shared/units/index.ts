@@ -0,0 +1,49 @@
+import type { Currency } from '../protocol';
+
+// Balances, bets and payouts are integers in the token's smallest unit (lamports for SOL).
+// The server settles and the browser verifies with these same functions, so both round alike.
+
+export type { Currency } from '../protocol';
+
+// Currency the server reports unless TOKEN_SYMBOL / TOKEN_DECIMALS say otherwise
+export const DEFAULT_CURRENCY: Currency = { symbol: 'SOL', decimals: 9 };
+
+// Multipliers are applied in basis points of 1x, e.g. 1.05x = 10500
+export const MULTIPLIER_SCALE = 10000;
+
+export function toMultiplierBps(multiplier: number): number {
+  return Math.round(multiplier * MULTIPLIER_SCALE);
+}
+
+// Payout of a bet in base units, fractional results are always rounded down
+export function calculatePayout(betAmount: number, multiplier: number): number {
+  const payout = (BigInt(betAmount) * BigInt(toMultiplierBps(multiplier))) / BigInt(MULTIPLIER_SCALE);
+
+  if (payout > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('Payout exceeds the safe integer range');
+  }
+
+  return Number(payout);
+}
+
+// Convert a decimal amount such as "1.5" to base units without going through floats,
+// returns null when the input is not a valid amount for the currency
+export function parseBaseUnits(amount: string, decimals: number): number | null {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(amount.trim());
+
+  if (!match || (match[2] || '').length > decimals) {
+    return null;
+  }
+
+  const units = BigInt(match[1] + (match[2] || '').padEnd(decimals, '0'));
+  return units > BigInt(Number.MAX_SAFE_INTEGER) ? null : Number(units);
+}
+
+export function formatBaseUnits(units: number, decimals: number): string {
+  const sign = units < 0 ? '-' : '';
+  const digits = Math.abs(units).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
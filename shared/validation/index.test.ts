@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parse,
+  autobetStartSchema,
+  configQuerySchema,
+  legacyVerifyQuerySchema,
+  MAX_BATCH_SIZE,
+  playBatchSchema,
+  playSchema,
+  seedChainQuerySchema,
+  verifySeedsSchema
+} from '.';
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+describe('playSchema', () => {
+  it('fills in the default table', () => {
+    expect(parse(playSchema, { betAmount: 1000 })).toEqual({
+      ok: true,
+      value: { betId: undefined, betAmount: 1000, riskMode: 'medium', rows: 16 }
+    });
+  });
+
+  it('only keeps the fields of the schema', () => {
+    const parsed = parse(playSchema, { betAmount: 1000, nonce: 5 });
+
+    expect(parsed.ok && Object.keys(parsed.value)).toEqual(['betId', 'betAmount', 'riskMode', 'rows']);
+  });
+
+  it.each([
+    [{ betAmount: 0 }, 'INVALID_BET_AMOUNT', 'betAmount'],
+    [{ betAmount: 1.5 }, 'INVALID_BET_AMOUNT', 'betAmount'],
+    [{ betAmount: '1000' }, 'INVALID_BET_AMOUNT', 'betAmount'],
+    [{ betAmount: 1000, riskMode: 'extreme' }, 'INVALID_RISK_MODE', 'riskMode'],
+    [{ betAmount: 1000, rows: 10 }, 'INVALID_ROWS', 'rows'],
+    [{ betAmount: 1000, betId: 'has spaces' }, 'INVALID_BET_ID', 'betId']
+  ])('refuses %j', (payload, code, field) => {
+    expect(parse(playSchema, payload)).toMatchObject({ ok: false, error: { code, field } });
+  });
+
+  it('refuses anything but an object', () => {
+    expect(parse(playSchema, [1000])).toMatchObject({ ok: false, error: { code: 'INVALID_PAYLOAD' } });
+    expect(parse(playSchema, null)).toMatchObject({ ok: false, error: { code: 'INVALID_PAYLOAD' } });
+  });
+});
+
+describe('playBatchSchema', () => {
+  it('caps the batch size', () => {
+    expect(parse(playBatchSchema, { betAmount: 1000, count: MAX_BATCH_SIZE }).ok).toBe(true);
+    expect(parse(playBatchSchema, { betAmount: 1000, count: MAX_BATCH_SIZE + 1 }))
+      .toMatchObject({ ok: false, error: { code: 'INVALID_BATCH_SIZE', field: 'count' } });
+    expect(parse(playBatchSchema, { betAmount: 1000, count: 0 })).toMatchObject({ ok: false });
+  });
+});
+
+describe('autobetStartSchema', () => {
+  it('resets the bet after wins and losses by default', () => {
+    const parsed = parse(autobetStartSchema, { betAmount: 1000 });
+
+    expect(parsed.ok && parsed.value).toMatchObject({
+      count: 0,
+      onWin: { action: 'reset', percent: 0 },
+      onLoss: { action: 'reset', percent: 0 }
+    });
+  });
+
+  it('reports nested strategy errors as autobet errors', () => {
+    expect(parse(autobetStartSchema, { betAmount: 1000, onLoss: { action: 'double', percent: 100 } }))
+      .toMatchObject({ ok: false, error: { code: 'INVALID_AUTOBET', field: 'action' } });
+  });
+});
+
+describe('query schemas', () => {
+  it('coerces query string numbers', () => {
+    expect(parse(configQuerySchema, { risk: 'high', rows: '8' })).toEqual({ ok: true, value: { risk: 'high', rows: 8 } });
+    expect(parse(configQuerySchema, { rows: '9' })).toMatchObject({ ok: false, error: { code: 'INVALID_ROWS' } });
+  });
+
+  it('takes the wallet of a seed chain lookup as optional', () => {
+    expect(parse(seedChainQuerySchema, {})).toEqual({ ok: true, value: { wallet: undefined } });
+    expect(parse(seedChainQuerySchema, { wallet: WALLET }).ok).toBe(true);
+    expect(parse(seedChainQuerySchema, { wallet: '0OIl' })).toMatchObject({ ok: false, error: { code: 'INVALID_WALLET' } });
+  });
+
+  it('decodes a JSON result from the legacy verify query', () => {
+    const query = {
+      serverSeed: 'ab12',
+      clientSeed: 'client',
+      nonce: '3',
+      riskMode: 'low',
+      rows: '8',
+      result: 'not json'
+    };
+
+    expect(parse(legacyVerifyQuerySchema, query)).toMatchObject({ ok: false, error: { code: 'INVALID_RESULT', field: 'result' } });
+  });
+});
+
+describe('verifySeedsSchema', () => {
+  it('checks the reported path', () => {
+    const seeds = { serverSeed: 'ab12', clientSeed: 'client', nonce: 0 };
+
+    expect(parse(verifySeedsSchema, { ...seeds, result: { bucket: 1, path: [0, 1], multiplier: 1.5 } }).ok).toBe(true);
+    expect(parse(verifySeedsSchema, { ...seeds, result: { bucket: 1, path: [0, 2], multiplier: 1.5 } }))
+      .toMatchObject({ ok: false, error: { code: 'INVALID_RESULT', field: 'path[1]' } });
+    expect(parse(verifySeedsSchema, { ...seeds, serverSeed: 'not hex' }))
+      .toMatchObject({ ok: false, error: { code: 'INVALID_SERVER_SEED' } });
+  });
+});
@@ -0,0 +1,309 @@
+import { CURRENT_RNG_VERSION, DEFAULT_ROWS, RISK_MODES, RiskMode, RNG_VERSIONS, RngVersion, SUPPORTED_ROWS } from '../fairness';
+import type { AutobetSettings, AutobetStrategy, ErrorCode, ErrorPayload } from '../protocol';
+
+// Payload schemas of the socket events and REST routes. The game server and the Next
+// API routes both check requests with them, so this module only depends on shared code
+// and reads no environment.
+
+export class ValidationError extends Error {
+  constructor(public code: ErrorCode, message: string, public field?: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+
+  toPayload(): ErrorPayload {
+    return { code: this.code, message: this.message, field: this.field };
+  }
+}
+
+// A validator returns the typed value or throws a ValidationError
+export type Validator<T> = (value: unknown, field: string) => T;
+type Schema<T> = { [K in keyof T]: Validator<T[K]> };
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: ErrorPayload };
+
+const WALLET_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+const PRINTABLE_PATTERN = /^[\x20-\x7e]+$/;
+const GAME_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+// X-Request-Id values accepted from callers, anything else gets a fresh id
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const BET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Query string values arrive as strings, REST bodies and socket payloads as JSON
+function toNumber(value: unknown, coerce: boolean): unknown {
+  return coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+}
+
+function finiteNumber(code: ErrorCode, options: { min?: number; max?: number; coerce?: boolean } = {}): Validator<number> {
+  return (raw, field) => {
+    const value = toNumber(raw, !!options.coerce);
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ValidationError(code, `${field} must be a finite number`, field);
+    }
+
+    if (options.min !== undefined && value < options.min) {
+      throw new ValidationError(code, `${field} must be at least ${options.min}`, field);
+    }
+
+    if (options.max !== undefined && value > options.max) {
+      throw new ValidationError(code, `${field} must be at most ${options.max}`, field);
+    }
+
+    return value;
+  };
+}
+
+function integer(code: ErrorCode, options: { min?: number; max?: number; coerce?: boolean } = {}): Validator<number> {
+  const number = finiteNumber(code, options);
+
+  return (raw, field) => {
+    const value = number(raw, field);
+
+    if (!Number.isSafeInteger(value)) {
+      throw new ValidationError(code, `${field} must be an integer`, field);
+    }
+
+    return value;
+  };
+}
+
+function string(code: ErrorCode, options: { pattern?: RegExp; maxLength?: number } = {}): Validator<string> {
+  return (value, field) => {
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new ValidationError(code, `${field} must be a non-empty string`, field);
+    }
+
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(code, `${field} must be at most ${options.maxLength} characters`, field);
+    }
+
+    if (options.pattern && !options.pattern.test(value)) {
+      throw new ValidationError(code, `${field} has an invalid format`, field);
+    }
+
+    return value;
+  };
+}
+
+function oneOf<T extends string | number>(code: ErrorCode, values: readonly T[], options: { coerce?: boolean } = {}): Validator<T> {
+  return (raw, field) => {
+    const value = typeof values[0] === 'number' ? toNumber(raw, !!options.coerce) : raw;
+
+    if (!values.includes(value as T)) {
+      throw new ValidationError(code, `${field} must be one of ${values.join(', ')}`, field);
+    }
+
+    return value as T;
+  };
+}
+
+function optional<T>(validator: Validator<T>, fallback: T): Validator<T>;
+function optional<T>(validator: Validator<T>): Validator<T | undefined>;
+function optional<T>(validator: Validator<T>, fallback?: T): Validator<T | undefined> {
+  return (value, field) => (value === undefined || value === null ? fallback : validator(value, field));
+}
+
+function arrayOf<T>(code: ErrorCode, item: Validator<T>, options: { maxLength?: number } = {}): Validator<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value) || (options.maxLength !== undefined && value.length > options.maxLength)) {
+      throw new ValidationError(code, `${field} must be an array`, field);
+    }
+
+    return value.map((entry, index) => item(entry, `${field}[${index}]`));
+  };
+}
+
+function object<T>(schema: Schema<T>, code: ErrorCode = 'INVALID_PAYLOAD'): Validator<T> {
+  return (value, field) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(code, `${field} must be an object`, field);
+    }
+
+    const input = value as Record<string, unknown>;
+    const output = {} as T;
+
+    for (const key of Object.keys(schema) as (keyof T)[]) {
+      output[key] = schema[key](input[key as string], String(key));
+    }
+
+    return output;
+  };
+}
+
+// JSON encoded inside a query string value
+function json<T>(code: ErrorCode, validator: Validator<T>): Validator<T> {
+  return (value, field) => {
+    if (typeof value !== 'string') {
+      throw new ValidationError(code, `${field} must be a JSON string`, field);
+    }
+
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new ValidationError(code, `${field} is not valid JSON`, field);
+    }
+
+    return validator(parsed, field);
+  };
+}
+
+export function parse<T>(validator: Validator<T>, value: unknown): ParseResult<T> {
+  try {
+    return { ok: true, value: validator(value, 'payload') };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { ok: false, error: error.toPayload() };
+    }
+
+    throw error;
+  }
+}
+
+// Shared field validators
+// Bets are integer base units of the configured currency
+const betAmount = integer('INVALID_BET_AMOUNT', { min: 1 });
+const riskMode = oneOf<RiskMode>('INVALID_RISK_MODE', RISK_MODES);
+const rows = oneOf<number>('INVALID_ROWS', SUPPORTED_ROWS);
+const rngVersion = oneOf<RngVersion>('INVALID_RNG_VERSION', RNG_VERSIONS);
+const clientSeed = string('INVALID_CLIENT_SEED', { pattern: PRINTABLE_PATTERN, maxLength: 64 });
+const serverSeed = string('INVALID_SERVER_SEED', { pattern: HEX_PATTERN, maxLength: 128 });
+const nonce = integer('INVALID_NONCE', { min: 0 });
+// Client-generated idempotency key of a play, see utils/idempotency.ts
+const betId = optional(string('INVALID_BET_ID', { pattern: BET_ID_PATTERN, maxLength: 64 }));
+const path = arrayOf('INVALID_RESULT', oneOf<number>('INVALID_RESULT', [0, 1]), { maxLength: Math.max(...SUPPORTED_ROWS) });
+
+// Socket events
+export const authChallengeSchema = object({
+  wallet: string('INVALID_WALLET', { pattern: WALLET_PATTERN })
+});
+
+export const authLoginSchema = object({
+  signature: string('INVALID_SIGNATURE', { pattern: BASE64_PATTERN, maxLength: 128 })
+});
+
+export const authResumeSchema = object({
+  sessionToken: string('INVALID_SESSION', { pattern: HEX_PATTERN, maxLength: 64 }),
+  // Last game the client saw, games settled after it are replayed
+  lastGameId: optional(string('INVALID_GAME_ID', { pattern: GAME_ID_PATTERN }))
+});
+
+export const newClientSeedSchema = object({
+  clientSeed: optional(clientSeed)
+});
+
+export const playSchema = object({
+  betId,
+  betAmount,
+  riskMode: optional(riskMode, 'medium'),
+  rows: optional(rows, DEFAULT_ROWS)
+});
+
+// Largest number of bets a single game:play-batch may settle
+export const MAX_BATCH_SIZE = 100;
+
+export const playBatchSchema = object({
+  betId,
+  betAmount,
+  riskMode: optional(riskMode, 'medium'),
+  rows: optional(rows, DEFAULT_ROWS),
+  count: integer('INVALID_BATCH_SIZE', { min: 1, max: MAX_BATCH_SIZE })
+});
+
+const autobetStrategy = optional<AutobetStrategy>(object({
+  action: oneOf<AutobetStrategy['action']>('INVALID_AUTOBET', ['reset', 'increase']),
+  percent: finiteNumber('INVALID_AUTOBET', { min: 0, max: 1000 })
+}, 'INVALID_AUTOBET'), { action: 'reset', percent: 0 });
+
+export const autobetStartSchema = object<AutobetSettings>({
+  betAmount,
+  riskMode: optional(riskMode, 'medium'),
+  rows: optional(rows, DEFAULT_ROWS),
+  count: optional(integer('INVALID_AUTOBET', { min: 0, max: 100000 }), 0),
+  onWin: autobetStrategy,
+  onLoss: autobetStrategy,
+  stopOnProfit: optional(integer('INVALID_AUTOBET', { min: 1 })),
+  stopOnLoss: optional(integer('INVALID_AUTOBET', { min: 1 })),
+  stopOnMultiplier: optional(finiteNumber('INVALID_AUTOBET', { min: 0 }))
+});
+
+export const ledgerHistorySchema = object({
+  limit: optional(integer('INVALID_PAYLOAD', { min: 1, max: 100 }), 50),
+  before: optional(integer('INVALID_PAYLOAD', { min: 1 }))
+});
+
+// REST routes
+export const configQuerySchema = object({
+  risk: optional(riskMode, 'medium'),
+  rows: optional(oneOf<number>('INVALID_ROWS', SUPPORTED_ROWS, { coerce: true }), DEFAULT_ROWS)
+});
+
+export const pathRequestSchema = object({
+  betAmount,
+  clientSeed,
+  riskLevel: optional(riskMode, 'medium'),
+  rows: optional(rows, DEFAULT_ROWS)
+});
+
+// Without a wallet, the chain new seeds are drawn from
+export const seedChainQuerySchema = object({
+  wallet: optional(string('INVALID_WALLET', { pattern: WALLET_PATTERN }))
+});
+
+export const seedHistoryQuerySchema = object({
+  wallet: string('INVALID_WALLET', { pattern: WALLET_PATTERN }),
+  page: optional(integer('INVALID_PAYLOAD', { min: 1, coerce: true }), 1),
+  pageSize: optional(integer('INVALID_PAYLOAD', { min: 1, max: 100, coerce: true }), 20)
+});
+
+export const betLookupSchema = object({
+  gameId: string('INVALID_GAME_ID', { pattern: GAME_ID_PATTERN })
+});
+
+// Inclusion proof of a bet, against the root of `size` records or the latest root
+export const auditProofSchema = object({
+  gameId: string('INVALID_GAME_ID', { pattern: GAME_ID_PATTERN }),
+  size: optional(integer('INVALID_PAYLOAD', { min: 1, coerce: true }))
+});
+
+export const verifyByIdSchema = object({
+  gameId: string('INVALID_GAME_ID', { pattern: GAME_ID_PATTERN })
+});
+
+export const verifySeedsSchema = object({
+  serverSeed,
+  clientSeed,
+  nonce,
+  rows: optional(rows, DEFAULT_ROWS),
+  riskLevel: optional(riskMode, 'medium'),
+  rngVersion: optional(rngVersion, CURRENT_RNG_VERSION),
+  result: optional(object({
+    bucket: integer('INVALID_RESULT', { min: 0 }),
+    path,
+    multiplier: finiteNumber('INVALID_RESULT', { min: 0 })
+  }, 'INVALID_RESULT'))
+});
+
+// Legacy GET /api/verify, every value arrives as a query string
+export const legacyVerifyQuerySchema = object({
+  serverSeed,
+  clientSeed,
+  nonce: integer('INVALID_NONCE', { min: 0, coerce: true }),
+  riskMode,
+  rows: oneOf<number>('INVALID_ROWS', SUPPORTED_ROWS, { coerce: true }),
+  rngVersion: optional(rngVersion),
+  result: json('INVALID_RESULT', object({
+    serverSeed: string('INVALID_RESULT'),
+    clientSeed: string('INVALID_RESULT'),
+    hashedServerSeed: string('INVALID_RESULT'),
+    nonce: integer('INVALID_RESULT', { min: 0 }),
+    gameResult: integer('INVALID_RESULT', { min: 0 }),
+    path,
+    finalMultiplier: finiteNumber('INVALID_RESULT', { min: 0 }),
+    rngVersion: optional(rngVersion)
+  }, 'INVALID_RESULT'))
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Keeps the server modules from writing keys and data files into the repository
+    env: {
+      PLAYER_STORE: 'memory'
+    }
+  }
+});